@@ -0,0 +1,272 @@
+/**
+ * MCPOS Stand-in Authorization Server
+ *
+ * A local OAuth 2.1 authorization server together with an MCP server it
+ * protects, for exercising the dashboard's authorization flow without a real
+ * identity provider:
+ *
+ * - Protected resource metadata at /.well-known/oauth-protected-resource/mcp
+ * - Authorization server metadata at /.well-known/oauth-authorization-server
+ * - Dynamic client registration at /register
+ * - Authorization code flow with PKCE at /authorize and /token
+ * - Refresh token rotation at /token
+ * - Bearer protected MCP endpoint at /mcp with a `whoami` tool
+ *
+ * Authorization requests are approved immediately, there is no login page.
+ * Everything is kept in memory and lost on restart.
+ *
+ * Environment:
+ * - PORT: listening port (default 8091)
+ * - ACCESS_TOKEN_TTL: access token lifetime in seconds (default 3600), use a
+ *   small value to exercise token refresh
+ */
+
+import { randomUUID } from "node:crypto";
+import cors from "cors";
+import type { Request, Response } from "express";
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { mcpAuthRouter, getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { InvalidGrantError, InvalidRequestError, InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthServerProvider, AuthorizationParams } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthClientInformationFull, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+
+// Default port for the server (can be overridden by PORT env var)
+const DEFAULT_PORT = 8091;
+const port = parseInt(process.env.PORT ?? DEFAULT_PORT.toString(), 10);
+const accessTokenTtl = parseInt(process.env.ACCESS_TOKEN_TTL ?? "3600", 10);
+
+const SCOPES = ["mcp:tools"];
+const issuerUrl = new URL(`http://localhost:${port}`);
+const mcpServerUrl = new URL("/mcp", issuerUrl);
+
+interface AuthorizationCode {
+  client: OAuthClientInformationFull;
+  params: AuthorizationParams;
+}
+
+interface RefreshToken {
+  clientId: string;
+  scopes: string[];
+  resource?: URL;
+}
+
+class InMemoryClientsStore implements OAuthRegisteredClientsStore {
+  private clients = new Map<string, OAuthClientInformationFull>();
+
+  async getClient(clientId: string) {
+    return this.clients.get(clientId);
+  }
+
+  async registerClient(client: OAuthClientInformationFull) {
+    this.clients.set(client.client_id, client);
+    console.log(`Registered client ${client.client_id} (${client.client_name ?? "unnamed"})`);
+    return client;
+  }
+}
+
+/**
+ * Issues opaque tokens and keeps them in memory. PKCE is verified by the
+ * SDK's token handler against challengeForAuthorizationCode().
+ */
+class InMemoryAuthProvider implements OAuthServerProvider {
+  readonly clientsStore = new InMemoryClientsStore();
+  private codes = new Map<string, AuthorizationCode>();
+  private accessTokens = new Map<string, AuthInfo>();
+  private refreshTokens = new Map<string, RefreshToken>();
+
+  async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: Response): Promise<void> {
+    if (!client.redirect_uris.includes(params.redirectUri)) {
+      throw new InvalidRequestError("Unregistered redirect_uri");
+    }
+
+    // Auto-approve, a real server would authenticate the user and ask for consent here
+    const code = randomUUID();
+    this.codes.set(code, { client, params });
+
+    const redirectUrl = new URL(params.redirectUri);
+    redirectUrl.searchParams.set("code", code);
+    if (params.state !== undefined) {
+      redirectUrl.searchParams.set("state", params.state);
+    }
+    res.redirect(redirectUrl.toString());
+  }
+
+  async challengeForAuthorizationCode(_client: OAuthClientInformationFull, authorizationCode: string): Promise<string> {
+    const code = this.codes.get(authorizationCode);
+    if (!code) {
+      throw new InvalidGrantError("Invalid authorization code");
+    }
+    return code.params.codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string): Promise<OAuthTokens> {
+    const code = this.codes.get(authorizationCode);
+    if (!code || code.client.client_id !== client.client_id) {
+      throw new InvalidGrantError("Invalid authorization code");
+    }
+    // Codes are single use
+    this.codes.delete(authorizationCode);
+
+    // Grant every supported scope when none were requested
+    const scopes = code.params.scopes?.length ? code.params.scopes : SCOPES;
+    return this.issueTokens(client.client_id, scopes, code.params.resource);
+  }
+
+  async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[], resource?: URL): Promise<OAuthTokens> {
+    const token = this.refreshTokens.get(refreshToken);
+    if (!token || token.clientId !== client.client_id) {
+      throw new InvalidGrantError("Invalid refresh token");
+    }
+    if (scopes?.some((scope) => !token.scopes.includes(scope))) {
+      throw new InvalidGrantError("Requested scopes exceed the original grant");
+    }
+    // Rotate refresh tokens, the old one can't be used again
+    this.refreshTokens.delete(refreshToken);
+
+    return this.issueTokens(client.client_id, scopes ?? token.scopes, resource ?? token.resource);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const authInfo = this.accessTokens.get(token);
+    if (!authInfo || (authInfo.expiresAt ?? 0) < Date.now() / 1000) {
+      this.accessTokens.delete(token);
+      throw new InvalidTokenError("Invalid or expired token");
+    }
+    return authInfo;
+  }
+
+  private issueTokens(clientId: string, scopes: string[], resource?: URL): OAuthTokens {
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+
+    this.accessTokens.set(accessToken, {
+      token: accessToken,
+      clientId,
+      scopes,
+      expiresAt: Math.floor(Date.now() / 1000) + accessTokenTtl,
+      resource,
+    });
+    this.refreshTokens.set(refreshToken, { clientId, scopes, resource });
+    console.log(`Issued tokens to client ${clientId}`);
+
+    return {
+      access_token: accessToken,
+      token_type: "bearer",
+      expires_in: accessTokenTtl,
+      refresh_token: refreshToken,
+      scope: scopes.join(" "),
+    };
+  }
+}
+
+/**
+ * The protected MCP server, one instance per request (stateless mode)
+ */
+function createMcpServer(): McpServer {
+  const server = new McpServer({ name: "mcpos-auth-server", version: "1.0.0" });
+
+  server.registerTool("whoami", {
+    title: "Who am I",
+    description: "Describe the access token used for this request.",
+  }, async (extra) => ({
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        clientId: extra.authInfo?.clientId,
+        scopes: extra.authInfo?.scopes,
+        expiresAt: extra.authInfo?.expiresAt,
+      }, null, 2),
+    }],
+  }));
+
+  return server;
+}
+
+function sendError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+const provider = new InMemoryAuthProvider();
+const app = createMcpExpressApp({ host: "127.0.0.1" });
+
+// Metadata, registration, authorize and token endpoints
+app.use(mcpAuthRouter({
+  provider,
+  issuerUrl,
+  resourceServerUrl: mcpServerUrl,
+  scopesSupported: SCOPES,
+  resourceName: "MCPOS Auth Test Server",
+}));
+
+app.use("/mcp", cors({
+  origin: /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/,
+  allowedHeaders: ["Content-Type", "Authorization", "mcp-session-id", "mcp-protocol-version", "last-event-id"],
+  // Clients read the resource metadata URL from the 401 challenge
+  exposedHeaders: ["mcp-session-id", "WWW-Authenticate"],
+  methods: ["GET", "POST", "DELETE", "OPTIONS"],
+}));
+
+const authenticate = requireBearerAuth({
+  verifier: provider,
+  requiredScopes: SCOPES,
+  resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(mcpServerUrl),
+});
+
+app.post("/mcp", authenticate, async (req: Request, res: Response) => {
+  const server = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+  res.on("close", () => {
+    transport.close();
+    server.close();
+  });
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    console.error("Error handling MCP request:", error);
+    if (!res.headersSent) {
+      sendError(res, 500, "Internal server error.");
+    }
+  }
+});
+
+// Stateless server, there are no sessions to stream from or terminate
+const methodNotAllowed = (_: Request, res: Response) => {
+  sendError(res, 405, "Method not allowed.");
+};
+app.get("/mcp", authenticate, methodNotAllowed);
+app.delete("/mcp", authenticate, methodNotAllowed);
+
+// Health check endpoint
+app.get("/health", (_: Request, res: Response) => {
+  res.json({
+    status: "healthy",
+    service: "mcpos-auth-server",
+    timestamp: new Date().toISOString(),
+    port,
+  });
+});
+
+const server = app.listen(port, "127.0.0.1", () => {
+  console.log(`🔐 MCPOS Auth Server issuing tokens at ${issuerUrl}`);
+  console.log(`🛡️  Protected MCP endpoint at ${mcpServerUrl}`);
+  console.log(`💚 Health check available at: http://localhost:${port}/health`);
+});
+
+const shutdown = (signal: string) => {
+  console.log(`\n🔄 Received ${signal}, shutting down MCPOS Auth Server...`);
+  server.close(() => process.exit(0));
+};
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
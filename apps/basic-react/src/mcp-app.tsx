@@ -1,7 +1,12 @@
 /**
  * @file App that demonstrates a few features using MCP Apps SDK + React.
  */
-import type { App } from "@modelcontextprotocol/ext-apps";
+import {
+  applyDocumentTheme,
+  applyHostStyleVariables,
+  type App,
+  type McpUiHostContext,
+} from "@modelcontextprotocol/ext-apps";
 import { useApp } from "@modelcontextprotocol/ext-apps/react";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { StrictMode, useCallback, useEffect, useState } from "react";
@@ -25,6 +30,35 @@ function extractTime(callToolResult: CallToolResult): string {
 }
 
 
+/**
+ * Host context the app was initialized with, kept current through
+ * host-context-changed notifications, which only carry what changed
+ */
+function useHostContext(app: App): McpUiHostContext {
+  const [hostContext, setHostContext] = useState<McpUiHostContext>(() => app.getHostContext() ?? {});
+
+  useEffect(() => {
+    app.onhostcontextchanged = (params) => {
+      log.info("Host context changed:", params);
+      // The app has already merged the change into its copy
+      setHostContext({ ...app.getHostContext() });
+    };
+  }, [app]);
+
+  // Theme and style variables of the host drive mcp-app.module.css
+  useEffect(() => {
+    if (hostContext.theme) {
+      applyDocumentTheme(hostContext.theme);
+    }
+    if (hostContext.styles?.variables) {
+      applyHostStyleVariables(hostContext.styles.variables);
+    }
+  }, [hostContext.theme, hostContext.styles]);
+
+  return hostContext;
+}
+
+
 function GetTimeApp() {
   // @ts-ignore - temporarily commented out usage
   const [toolResult, setToolResult] = useState<CallToolResult | null>(null);
@@ -61,6 +95,7 @@ interface GetTimeAppInnerProps {
   toolResult: CallToolResult | null;
 }
 function GetTimeAppInner({ app, toolResult }: GetTimeAppInnerProps) {
+  const hostContext = useHostContext(app);
   const [serverTime, setServerTime] = useState("Loading...");
   const [messageText, setMessageText] = useState("This is message text.");
   const [logText, setLogText] = useState("This is log text.");
@@ -109,10 +144,31 @@ function GetTimeAppInner({ app, toolResult }: GetTimeAppInnerProps) {
     log.info("Open link request", isError ? "rejected" : "accepted");
   }, [app, linkUrl]);
 
+  const { locale, timeZone, viewport, platform } = hostContext;
+
   return (
     <main className={styles.main}>
       <p className={styles.notice}>Watch activity in the DevTools console!</p>
 
+      <div className={styles.action}>
+        <p>
+          <strong>Host:</strong>{" "}
+          <code id="host-context">
+            {[
+              hostContext.theme ?? "light",
+              locale,
+              timeZone,
+              platform,
+              viewport && `${viewport.width}×${viewport.height}`,
+            ].filter(Boolean).join(" · ")}
+          </code>
+        </p>
+        <p>
+          <strong>Local Time:</strong>{" "}
+          <code>{new Date().toLocaleString(locale, { timeZone })}</code>
+        </p>
+      </div>
+
       <div className={styles.action}>
         <p>
           <strong>Server Time:</strong> <code id="server-time">{serverTime}</code>
@@ -0,0 +1,228 @@
+/**
+ * MCPOS Stdio Bridge
+ *
+ * A local Express server that spawns stdio MCP servers on demand and exposes
+ * each of them over Streamable HTTP, so the browser dashboard can manage
+ * servers that only speak stdio (e.g. apps started with `--stdio`).
+ *
+ * The command line of the server to spawn is passed as query parameters on
+ * the initialize request, and its environment, which may hold secrets, as
+ * URI-encoded JSON in the mcpos-env header:
+ *
+ *   POST /mcp?command=npx&args=["tsx","server.ts","--stdio"]
+ *   mcpos-env: %7B%22PORT%22%3A%220%22%7D
+ *
+ * Every MCP session owns one child process, which is terminated together
+ * with the session.
+ *
+ * Security Features:
+ * - Listens on the loopback interface only
+ * - CORS restricted to localhost origins
+ * - DNS rebinding protection from the MCP SDK
+ */
+
+import { randomUUID } from "node:crypto";
+import cors from "cors";
+import type { Request, Response } from "express";
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+const SESSION_ID_HEADER_NAME = "mcp-session-id";
+const ENV_HEADER_NAME = "mcpos-env";
+
+// Default port for the bridge (can be overridden by PORT env var)
+const DEFAULT_PORT = 8090;
+const port = parseInt(process.env.PORT ?? DEFAULT_PORT.toString(), 10);
+
+interface ServerCommand {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+interface BridgeSession {
+  http: StreamableHTTPServerTransport;
+  stdio: StdioClientTransport;
+}
+
+const sessions = new Map<string, BridgeSession>();
+
+function sendError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Read the command line of the stdio server from the request query, and its
+ * environment from the env header
+ */
+function parseServerCommand(req: Request): ServerCommand {
+  const { command, args } = req.query;
+  const env = req.header(ENV_HEADER_NAME);
+  if (typeof command !== "string" || command.length === 0) {
+    throw new Error("Missing 'command' query parameter");
+  }
+
+  const parsedArgs: unknown = typeof args === "string" ? JSON.parse(args) : [];
+  if (!Array.isArray(parsedArgs) || !parsedArgs.every((arg) => typeof arg === "string")) {
+    throw new Error("'args' must be a JSON array of strings");
+  }
+
+  const parsedEnv: unknown = env ? JSON.parse(decodeURIComponent(env)) : {};
+  if (typeof parsedEnv !== "object" || parsedEnv === null || Array.isArray(parsedEnv)) {
+    throw new Error(`'${ENV_HEADER_NAME}' must be a JSON object`);
+  }
+
+  return { command, args: parsedArgs, env: parsedEnv as Record<string, string> };
+}
+
+/**
+ * Spawn the stdio server and wire it to a new Streamable HTTP session
+ */
+async function createSession({ command, args, env }: ServerCommand): Promise<StreamableHTTPServerTransport> {
+  const stdio = new StdioClientTransport({
+    command,
+    args,
+    env: { ...getDefaultEnvironment(), ...env },
+    stderr: "inherit",
+  });
+
+  const http = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      console.log(`Session ${sessionId} started: ${command} ${args.join(" ")}`);
+      sessions.set(sessionId, { http, stdio });
+    },
+  });
+
+  // Forward messages verbatim in both directions. Responses are routed back
+  // to the originating HTTP request by their id; everything else goes out on
+  // the session's standalone SSE stream.
+  http.onmessage = (message) => {
+    stdio.send(message).catch((error) => console.error("Failed to forward to stdio server:", error));
+  };
+  stdio.onmessage = (message) => {
+    http.send(message).catch((error) => console.error("Failed to forward to HTTP client:", error));
+  };
+
+  http.onclose = () => {
+    const sessionId = http.sessionId;
+    if (sessionId && sessions.delete(sessionId)) {
+      console.log(`Session ${sessionId} closed, stopping ${command}`);
+    }
+    stdio.close().catch(() => {});
+  };
+  stdio.onclose = () => {
+    http.close().catch(() => {});
+  };
+  stdio.onerror = (error) => {
+    console.error(`stdio server error (${command}):`, error);
+  };
+
+  try {
+    await stdio.start();
+    await http.start();
+  } catch (error) {
+    await stdio.close().catch(() => {});
+    throw error;
+  }
+  return http;
+}
+
+const app = createMcpExpressApp({ host: "127.0.0.1" });
+
+app.use(cors({
+  origin: /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/,
+  allowedHeaders: ["Content-Type", "Authorization", SESSION_ID_HEADER_NAME, ENV_HEADER_NAME, "mcp-protocol-version", "last-event-id"],
+  exposedHeaders: [SESSION_ID_HEADER_NAME],
+  methods: ["GET", "POST", "DELETE", "OPTIONS"],
+}));
+
+app.post("/mcp", async (req: Request, res: Response) => {
+  const sessionId = req.header(SESSION_ID_HEADER_NAME);
+
+  try {
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, "Session not found.");
+        return;
+      }
+      await session.http.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      sendError(res, 400, "Bad Request: invalid session ID or method.");
+      return;
+    }
+
+    let command: ServerCommand;
+    try {
+      command = parseServerCommand(req);
+    } catch (error) {
+      sendError(res, 400, `Bad Request: ${(error as Error).message}`);
+      return;
+    }
+
+    const http = await createSession(command);
+    try {
+      await http.handleRequest(req, res, req.body);
+    } finally {
+      // The initialize was rejected, so no session owns the child process;
+      // closing the transport stops it
+      if (!http.sessionId) {
+        await http.close();
+      }
+    }
+  } catch (error) {
+    console.error("Error handling MCP request:", error);
+    if (!res.headersSent) {
+      sendError(res, 500, "Internal server error.");
+    }
+  }
+});
+
+// SSE streams and session termination are handled by the session's transport
+const handleSessionRequest = async (req: Request, res: Response) => {
+  const session = sessions.get(req.header(SESSION_ID_HEADER_NAME) ?? "");
+  if (!session) {
+    sendError(res, 404, "Session not found.");
+    return;
+  }
+  await session.http.handleRequest(req, res);
+};
+
+app.get("/mcp", handleSessionRequest);
+app.delete("/mcp", handleSessionRequest);
+
+// Health check endpoint
+app.get("/health", (_: Request, res: Response) => {
+  res.json({
+    status: "healthy",
+    service: "mcpos-stdio-bridge",
+    sessions: sessions.size,
+    timestamp: new Date().toISOString(),
+    port,
+  });
+});
+
+const server = app.listen(port, "127.0.0.1", () => {
+  console.log(`🌉 MCPOS Stdio Bridge listening on http://localhost:${port}/mcp`);
+  console.log(`💚 Health check available at: http://localhost:${port}/health`);
+});
+
+// Graceful shutdown, terminating every spawned server
+const shutdown = async (signal: string) => {
+  console.log(`\n🔄 Received ${signal}, shutting down MCPOS Stdio Bridge...`);
+  await Promise.all(Array.from(sessions.values()).map(({ stdio }) => stdio.close().catch(() => {})));
+  server.close(() => process.exit(0));
+};
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
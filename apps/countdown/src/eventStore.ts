@@ -0,0 +1,41 @@
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+
+// oldest events are dropped past this many, a countdown sends one per second
+const MAX_EVENTS = 1000
+
+// events of one session, kept in memory so clients can resume dropped streams
+// with Last-Event-ID
+export class MemoryEventStore implements EventStore {
+	private events: Map<EventId, { streamId: StreamId, message: JSONRPCMessage }> = new Map()
+	private nextId = 0
+
+	async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+		const eventId = String(this.nextId++)
+		this.events.set(eventId, { streamId, message })
+		if (this.events.size > MAX_EVENTS) {
+			// maps iterate in insertion order, the first key is the oldest
+			this.events.delete(this.events.keys().next().value!)
+		}
+		return eventId
+	}
+
+	async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+		return this.events.get(eventId)?.streamId
+	}
+
+	async replayEventsAfter(lastEventId: EventId, { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }): Promise<StreamId> {
+		const streamId = this.events.get(lastEventId)?.streamId
+		if (streamId === undefined) return ''
+
+		let found = false
+		for (const [eventId, event] of this.events) {
+			if (eventId === lastEventId) {
+				found = true
+			} else if (found && event.streamId === streamId) {
+				await send(eventId, event.message)
+			}
+		}
+		return streamId
+	}
+}
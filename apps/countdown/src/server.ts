@@ -2,16 +2,21 @@ import { randomUUID } from "node:crypto"
 import fs from "node:fs/promises"
 import path from "node:path"
 import { Request, Response } from "express"
-import { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { McpServer, ResourceTemplate, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js"
 import { registerAppTool, registerAppResource, RESOURCE_MIME_TYPE, RESOURCE_URI_META_KEY, McpUiAppResourceConfig } from "@modelcontextprotocol/ext-apps/server"
-import { CallToolResult, Notification, CallToolRequestSchema, ListToolsRequestSchema, LoggingMessageNotification, ToolListChangedNotification, JSONRPCNotification, JSONRPCErrorResponse, InitializeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult, Notification, CallToolRequestSchema, ListToolsRequestSchema, LoggingMessageNotification, ProgressNotification, ToolListChangedNotification, JSONRPCNotification, JSONRPCErrorResponse, InitializeRequestSchema, ResourceUpdatedNotification, SubscribeRequestSchema, UnsubscribeRequestSchema, ElicitResultSchema, McpError, ErrorCode, ClientCapabilities } from "@modelcontextprotocol/sdk/types.js";
 import { z } from 'zod'
+import { MemoryEventStore } from "./eventStore.js"
 
 const SESSION_ID_HEADER_NAME = "mcp-session-id"
 const JSON_RPC = "2.0"
 // Two-part registration: tool + resource
 const resourceUri = "ui://get-time/mcp-app.html"
+// running countdowns are readable (and subscribable) as resources
+const statusUri = "countdown://status"
+const logoUri = "countdown://logo.svg"
 
 async function sendNotificationByTransport(transport: StreamableHTTPServerTransport, notification: Notification) {
     const rpcNotificaiton: JSONRPCNotification = {
@@ -32,6 +37,18 @@ function createErrorResponse(message: string, code = -32000): JSONRPCErrorRespon
     }
 }
 
+// capabilities a client declared in its initialize request, if the body holds one
+function getInitializeCapabilities(body: any): ClientCapabilities | undefined {
+    const requests = Array.isArray(body) ? body : [body]
+    for (const request of requests) {
+        const result = InitializeRequestSchema.safeParse(request)
+        if (result.success) {
+            return result.data.params.capabilities
+        }
+    }
+    return undefined
+}
+
 function isInitializeRequest(body: any): boolean {
     const isInitial = (data: any) => {
         const result = InitializeRequestSchema.safeParse(data)
@@ -43,6 +60,42 @@ function isInitializeRequest(body: any): boolean {
     return isInitial(body)
 }
 
+// remaining seconds of every running countdown, by countdown id
+const countdowns: Map<string, number> = new Map()
+// resource uri => ids of the sessions subscribed to it
+const subscriptions: Map<string, Set<string>> = new Map()
+// capabilities of each session's client, the shared server only knows the last one to connect
+const clientCapabilities: Map<string, ClientCapabilities> = new Map()
+
+async function notifyResourceUpdated(uri: string) {
+	const sessionIds = subscriptions.get(uri)
+	if (!sessionIds) return
+
+	const notification: ResourceUpdatedNotification = {
+		method: "notifications/resources/updated",
+		params: { uri }
+	}
+	for (const sessionId of sessionIds) {
+		const transport = transports[sessionId]
+		if (!transport) {
+			// session is gone, drop its subscription
+			sessionIds.delete(sessionId)
+			continue
+		}
+		await sendNotificationByTransport(transport, notification)
+	}
+}
+
+async function updateCountdown(id: string, current: number) {
+	if (current < 0) {
+		countdowns.delete(id)
+	} else {
+		countdowns.set(id, current)
+	}
+	await notifyResourceUpdated(statusUri)
+	await notifyResourceUpdated(`${statusUri}/${id}`)
+}
+
 // tool that returns a single greeting
 const singleGreetTool = {
 	title: 'single-greeting',
@@ -113,6 +166,8 @@ const countdownCB: ToolCallback<z.ZodRawShape> = async ({start}: any, extra): Pr
 		throw new Error("Session ID is required for countdown tool.")
 	}
 	const sendNotification = extra.sendNotification
+	// only set when the client asked for progress updates
+	const progressToken = extra._meta?.progressToken
 	const id = `cb-${Date.now().toString(36)}`
 	let current = start
 	console.log('Starting countdown initialization')
@@ -122,40 +177,126 @@ const countdownCB: ToolCallback<z.ZodRawShape> = async ({start}: any, extra): Pr
 		params: { level: "info", data: `Starting countdown from ${start} with ID: ${id}` }
 	}
 	sendNotification(notification)
+	await updateCountdown(id, current)
+
+	// Count down while the call stays open, so the client can cancel it
+	return new Promise<CallToolResult>((resolve) => {
+		const interval = setInterval(async () => {
+			const message: LoggingMessageNotification = {
+				method: "notifications/message",
+				params: { level: "info", data: `Countdown: ${current}` }
+			}
 
-	// Start countdown in background
-	const interval = setInterval(async () => {
-		const transport = transports[sessionId]
-		const message: LoggingMessageNotification = {
-			method: "notifications/message",
-			params: { level: "info", data: `Countdown: ${current}` }
-		}
+			console.log(`Attempting to send notification for countdown: ${current}`)
+			await sendNotification(message)
+			if (progressToken !== undefined) {
+				// ticks run from start down to 0 inclusive
+				const progress: ProgressNotification = {
+					method: "notifications/progress",
+					params: { progressToken, progress: start - current + 1, total: start + 1, message: `Countdown: ${current}` }
+				}
+				await sendNotification(progress)
+			}
 
-		console.log(`Attempting to send notification for countdown: ${current}`)
-		await sendNotificationByTransport(transport, message)
+			current--
+			await updateCountdown(id, current)
 
-		current--
+			if (current < 0) {
+				clearInterval(interval)
 
-		if (current < 0) {
-			clearInterval(interval)
+				// Send completion notification
+				const completionMessage: LoggingMessageNotification = {
+						method: "notifications/message",
+						params: { level: "info", data: `🎉 Countdown ${id} finished!` }
+				}
 
-			// Send completion notification
-			const completionMessage: LoggingMessageNotification = {
-					method: "notifications/message",
-					params: { level: "info", data: `🎉 Countdown ${id} finished!` }
+				await sendNotification(completionMessage)
+				resolve({
+					content: [{
+						type: "text",
+						text: `Counted down from ${start} seconds! (ID: ${id})`
+					}],
+					structuredContent: { current: 0 },
+				})
 			}
+		}, 1000)
+
+		// notifications/cancelled from the client
+		extra.signal.addEventListener('abort', async () => {
+			clearInterval(interval)
+			console.log(`Countdown ${id} cancelled at ${current}`)
+			await updateCountdown(id, -1)
+			resolve({
+				content: [{
+					type: "text",
+					text: `Countdown ${id} cancelled at ${current}`
+				}],
+				structuredContent: { current },
+			})
+		}, { once: true })
+	})
+}
+
+// countdowns from this many seconds up ask the user before they start
+const LONG_COUNTDOWN = 60
 
-			await sendNotificationByTransport(transport, completionMessage)
+// countdown that asks for confirmation through elicitation before a long run
+const confirmedCountdownTool = {
+	title: 'confirmed-countdown',
+	description: `Start a countdown, asking the user to confirm first when it runs ${LONG_COUNTDOWN} seconds or more`,
+	inputSchema: {
+		start: z.number().min(1).max(3600).describe("Starting number for countdown (1-3600 seconds)")
+	},
+	outputSchema: {current: z.number()},
+}
+
+const confirmedCountdownCB: ToolCallback<z.ZodRawShape> = async ({start}: any, extra): Promise<CallToolResult> => {
+	if (start >= LONG_COUNTDOWN) {
+		if (!extra.sessionId || !clientCapabilities.get(extra.sessionId)?.elicitation) {
+			return {
+				isError: true,
+				content: [{
+					type: "text",
+					text: `A countdown of ${start} seconds needs confirmation, but the client cannot ask the user`
+				}]
+			}
 		}
-	}, 1000)
 
-	return {
-		content: [{
-			type: "text",
-			text: `Start Counting down from ${start} seconds! (ID: ${id})`
-		}],
-		structuredContent: { current },
+		// sent on the stream of this tool call, so the client can tell what is asking
+		const answer = await extra.sendRequest({
+			method: "elicitation/create",
+			params: {
+				mode: "form",
+				message: `Start a countdown of ${start} seconds? The call stays open until it ends.`,
+				requestedSchema: {
+					type: "object",
+					properties: {
+						confirm: { type: "boolean", title: "Start the countdown", default: true },
+						reason: { type: "string", title: "Reason", description: "What the countdown is for" }
+					},
+					required: ["confirm"]
+				}
+			}
+		}, ElicitResultSchema)
+
+		if (answer.action !== "accept" || !answer.content?.confirm) {
+			return {
+				content: [{
+					type: "text",
+					text: `Countdown of ${start} seconds not started (${answer.action === "accept" ? "not confirmed" : answer.action})`
+				}],
+				structuredContent: { current: start },
+			}
+		}
+		if (answer.content.reason) {
+			await extra.sendNotification({
+				method: "notifications/message",
+				params: { level: "info", data: `Countdown confirmed: ${answer.content.reason}` }
+			})
+		}
 	}
+
+	return countdownCB({ start }, extra)
 }
 
 const	server: McpServer	= new McpServer({
@@ -166,6 +307,7 @@ const	server: McpServer	= new McpServer({
 }, {
 	capabilities: {
 		tools: {},
+		resources: { subscribe: true },
 		logging: {}
 	}
 })
@@ -189,6 +331,129 @@ registerAppTool(
 	countdownCB
 )
 
+server.registerTool(
+	'confirmed-countdown',
+	confirmedCountdownTool,
+	confirmedCountdownCB
+)
+
+server.registerResource(
+	'countdown-status',
+	statusUri,
+	{
+		title: 'Countdown status',
+		description: 'Remaining seconds of every running countdown',
+		mimeType: 'application/json'
+	},
+	async (uri) => ({
+		contents: [{
+			uri: uri.href,
+			mimeType: 'application/json',
+			text: JSON.stringify(Object.fromEntries(countdowns), null, 2)
+		}]
+	})
+)
+
+server.registerResource(
+	'countdown',
+	new ResourceTemplate(`${statusUri}/{id}`, {
+		list: async () => ({
+			resources: Array.from(countdowns.keys(), id => ({
+				uri: `${statusUri}/${id}`,
+				name: `Countdown ${id}`,
+				mimeType: 'application/json'
+			}))
+		})
+	}),
+	{
+		title: 'Countdown',
+		description: 'Remaining seconds of a single countdown',
+		mimeType: 'application/json'
+	},
+	async (uri, { id }) => {
+		const current = countdowns.get(String(id))
+		if (current === undefined) {
+			throw new McpError(ErrorCode.InvalidParams, `Countdown not running: ${id}`)
+		}
+		return {
+			contents: [{
+				uri: uri.href,
+				mimeType: 'application/json',
+				text: JSON.stringify({ id, current }, null, 2)
+			}]
+		}
+	}
+)
+
+server.registerResource(
+	'logo',
+	logoUri,
+	{ title: 'Countdown logo', mimeType: 'image/svg+xml' },
+	async (uri) => {
+		const svg = await fs.readFile(path.join(import.meta.dirname, "../src", "countdown.svg"))
+		return {
+			contents: [{ uri: uri.href, mimeType: 'image/svg+xml', blob: svg.toString('base64') }]
+		}
+	}
+)
+
+// suggested starting points for the countdown prompt
+const COUNTDOWN_PRESETS = ["10", "30", "60", "300", "600"]
+
+server.registerPrompt(
+	'plan-countdown',
+	{
+		title: 'Plan a countdown',
+		description: 'Ask the model to plan a countdown, given the ones already running',
+		argsSchema: {
+			start: completable(
+				z.string().describe("Starting number in seconds"),
+				(value) => COUNTDOWN_PRESETS.filter(preset => preset.startsWith(value))
+			),
+			purpose: z.string().optional().describe("What the countdown is for"),
+		},
+	},
+	async ({ start, purpose }) => ({
+		messages: [
+			{
+				role: 'user',
+				content: {
+					type: 'text',
+					text: `Plan a countdown of ${start} seconds${purpose ? ` for ${purpose}` : ''}. These countdowns are already running:`
+				}
+			},
+			{
+				role: 'user',
+				content: {
+					type: 'resource',
+					resource: {
+						uri: statusUri,
+						mimeType: 'application/json',
+						text: JSON.stringify(Object.fromEntries(countdowns), null, 2)
+					}
+				}
+			},
+		]
+	})
+)
+
+server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }, extra) => {
+	if (!extra.sessionId) {
+		throw new McpError(ErrorCode.InvalidRequest, "Subscriptions require a session")
+	}
+	const sessionIds = subscriptions.get(params.uri) ?? new Set()
+	sessionIds.add(extra.sessionId)
+	subscriptions.set(params.uri, sessionIds)
+	return {}
+})
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }, extra) => {
+	if (extra.sessionId) {
+		subscriptions.get(params.uri)?.delete(extra.sessionId)
+	}
+	return {}
+})
+
 // to support multiple simultaneous connections
 const transports: {[sessionId: string]: StreamableHTTPServerTransport} = {}
 let toolInterval: NodeJS.Timeout | undefined
@@ -227,10 +492,18 @@ export async function handlePostRequest(req: Request, res: Response) {
 			return
 		}
 
+		// unknown session (e.g. after a restart), clients must re-initialize
+		if (sessionId) {
+			res.status(404).json(createErrorResponse("Session not found."))
+			return
+		}
+
 		// create new transport
 		if (!sessionId && isInitializeRequest(req.body)) {
 			const transport = new StreamableHTTPServerTransport({
 				sessionIdGenerator: () => randomUUID(),
+				// lets clients resume dropped streams with Last-Event-ID
+				eventStore: new MemoryEventStore(),
 				// for stateless mode:
 				// sessionIdGenerator: () => undefined
 			})
@@ -240,6 +513,7 @@ export async function handlePostRequest(req: Request, res: Response) {
 				if (sid && transports[sid]) {
 					console.log(`Transport closed for session ${sid}, removing from transports map`);
 					delete transports[sid];
+					clientCapabilities.delete(sid)
 				}
 			};
 			await server.connect(transport)
@@ -250,6 +524,10 @@ export async function handlePostRequest(req: Request, res: Response) {
 			const sessionId = transport.sessionId
 			if (sessionId) {
 				transports[sessionId] = transport
+				const capabilities = getInitializeCapabilities(req.body)
+				if (capabilities) {
+					clientCapabilities.set(sessionId, capabilities)
+				}
 			}
 
 			return
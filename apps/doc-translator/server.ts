@@ -2,7 +2,8 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { registerAppTool, registerAppResource, RESOURCE_MIME_TYPE, RESOURCE_URI_META_KEY } from "@modelcontextprotocol/ext-apps/server";
 import type { CallToolResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
@@ -57,6 +58,43 @@ let translationMemory: any[] = [
   }
 ];
 
+// Language codes suggested for the language arguments
+const LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  ru: "Russian",
+  ar: "Arabic",
+  zh: "Chinese",
+  ja: "Japanese",
+  ko: "Korean"
+};
+
+// Categories suggested along with the ones the glossary already uses
+const DEFAULT_GLOSSARY_CATEGORIES = ["General", "Legal", "Medical", "Technical", "Marketing", "Finance"];
+
+// Tool _meta key MCPOS reads to complete tool arguments through a prompt or
+// resource template, tools have no completion reference of their own
+const COMPLETIONS_META_KEY = "mcpos/completions";
+
+// Codes whose code or language name starts with the value
+function completeLanguage(value: string, exclude?: string): string[] {
+  const query = value.toLowerCase();
+  return Object.entries(LANGUAGES)
+    .filter(([code, name]) => code !== exclude && (code.startsWith(query) || name.toLowerCase().startsWith(query)))
+    .map(([code]) => code);
+}
+
+function completeCategory(value: string): string[] {
+  const query = value.toLowerCase();
+  const categories = new Set<string>([...glossaryEntries.map(entry => entry.category), ...DEFAULT_GLOSSARY_CATEGORIES]);
+  return [...categories].filter(category => category.toLowerCase().startsWith(query));
+}
+
 function createServer(): McpServer {
   const server = new McpServer({
     name: "Document Translation Server",
@@ -67,6 +105,13 @@ function createServer(): McpServer {
   const uploadResourceUri = "ui://doc-translator/upload.html";
   const historyResourceUri = "ui://doc-translator/history.html";
   const glossaryResourceUri = "ui://doc-translator/glossary.html";
+  const glossaryCategoryTemplate = "glossary://{category}";
+
+  // Language arguments of the tools complete like those of the translate-text prompt
+  const languageCompletions = {
+    sourceLang: { type: "ref/prompt", name: "translate-text" },
+    targetLang: { type: "ref/prompt", name: "translate-text" },
+  };
 
   // ============================================================================
   // UPLOAD DOCUMENT TOOLS
@@ -86,7 +131,10 @@ function createServer(): McpServer {
       title: "Translate Document",
       description: "Upload and translate a document to another language",
       inputSchema: translateDocumentSchema.shape,
-      _meta: { [RESOURCE_URI_META_KEY]: uploadResourceUri },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: uploadResourceUri,
+        [COMPLETIONS_META_KEY]: languageCompletions,
+      },
     },
     async (args): Promise<CallToolResult> => {
       console.log(`[TRANSLATE] Starting translation job ${args.jobId} for ${args.fileName}`);
@@ -344,7 +392,13 @@ function createServer(): McpServer {
       title: "Add Glossary Entry",
       description: "Add a new term to the glossary",
       inputSchema: addGlossaryEntrySchema.shape,
-      _meta: { [RESOURCE_URI_META_KEY]: glossaryResourceUri },
+      _meta: {
+        [RESOURCE_URI_META_KEY]: glossaryResourceUri,
+        [COMPLETIONS_META_KEY]: {
+          ...languageCompletions,
+          category: { type: "ref/resource", uri: glossaryCategoryTemplate },
+        },
+      },
     },
     async (args): Promise<CallToolResult> => {
       console.log(`[GLOSSARY] Adding new entry: ${args.sourceTerm} -> ${args.targetTerm}`);
@@ -433,6 +487,99 @@ function createServer(): McpServer {
     }
   );
 
+  // ============================================================================
+  // PROMPTS AND TEMPLATES WITH COMPLETIONS
+  // ============================================================================
+
+  server.registerPrompt(
+    "translate-text",
+    {
+      title: "Translate Text",
+      description: "Ask the model to translate a passage, following the glossary of the language pair",
+      argsSchema: {
+        text: z.string().describe("Text to translate"),
+        sourceLang: completable(
+          z.string().describe("Source language code"),
+          (value) => completeLanguage(value)
+        ),
+        targetLang: completable(
+          z.string().describe("Target language code"),
+          // No point translating into the source language
+          (value, context) => completeLanguage(value, context?.arguments?.sourceLang)
+        ),
+      },
+    },
+    ({ text, sourceLang, targetLang }) => {
+      const terms = glossaryEntries
+        .filter(entry => entry.sourceLang === sourceLang && entry.targetLang === targetLang)
+        .map(entry => `- "${entry.sourceTerm}" -> "${entry.targetTerm}"`);
+      const glossary = terms.length > 0 ? `\nUse these glossary terms:\n${terms.join("\n")}\n` : "";
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Translate the following text from ${LANGUAGES[sourceLang] ?? sourceLang} to ${LANGUAGES[targetLang] ?? targetLang}.${glossary}\n${text}`
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  server.registerPrompt(
+    "review-glossary",
+    {
+      title: "Review Glossary",
+      description: "Ask the model to review the glossary terms of one category",
+      argsSchema: {
+        category: completable(
+          z.string().describe("Glossary category"),
+          (value) => completeCategory(value)
+        ),
+      },
+    },
+    ({ category }) => ({
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Review these ${category} glossary entries for accuracy and consistency:\n${JSON.stringify(
+              glossaryEntries.filter(entry => entry.category === category),
+              null,
+              2
+            )}`
+          }
+        }
+      ]
+    })
+  );
+
+  server.registerResource(
+    "glossary-category",
+    new ResourceTemplate(glossaryCategoryTemplate, {
+      list: undefined,
+      complete: { category: (value) => completeCategory(value) },
+    }),
+    {
+      title: "Glossary Category",
+      description: "Glossary entries of one category",
+      mimeType: "application/json",
+    },
+    async (uri, { category }): Promise<ReadResourceResult> => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(glossaryEntries.filter(entry => entry.category === category), null, 2)
+        }
+      ]
+    })
+  );
+
   return server;
 }
 
@@ -443,6 +590,7 @@ async function main() {
   console.log(`   - translate-document (Upload page)`);
   console.log(`   - get-translation-history, download-translation, delete-translation (History page)`);
   console.log(`   - get-glossary, get-translation-memory, add-glossary-entry, delete-glossary-entry (Glossary page)`);
+  console.log(`📝 Prompts with completions: translate-text, review-glossary`);
   console.log(`\n🌐 Test the HTML pages:`);
   console.log(`   - Upload: http://localhost:${PORT}/upload/upload.html`);
   console.log(`   - History: http://localhost:${PORT}/history/history.html`);
@@ -1,33 +1,99 @@
-import { useState } from 'react'
-import { AppShell, Container, Title, Modal, TextInput, Stack, Group, Button } from '@mantine/core'
+import { useState, useEffect, useRef } from 'react'
+import {
+  AppShell,
+  Container,
+  Title,
+  Modal,
+  TextInput,
+  Stack,
+  Group,
+  Button,
+  Select,
+  Indicator,
+  ActionIcon,
+  Tooltip,
+  useMantineColorScheme,
+  useComputedColorScheme
+} from '@mantine/core'
 import { useDisclosure } from '@mantine/hooks'
 import { useForm } from '@mantine/form'
 import { notifications } from '@mantine/notifications'
+import { IconMessages, IconSun, IconMoon } from '@tabler/icons-react'
 import { MCPServerTable } from './components/MCPServerTable'
 import { ToolsModal } from './components/ToolsModal'
+import { ServerSettingsModal } from './components/ServerSettingsModal'
+import { HistoryModal } from './components/HistoryModal'
+import { LogConsoleModal } from './components/LogConsole'
+import { ProtocolInspectorModal } from './components/ProtocolInspector'
+import { ServerDetailsDrawer } from './components/ServerDetailsDrawer'
+import { SamplingDialog } from './components/SamplingDialog'
+import { ElicitationDialog } from './components/ElicitationDialog'
+import { ConversationDrawer } from './components/ConversationPanel'
+import { Workspace } from './components/Workspace'
+import { Taskbar } from './components/Taskbar'
 import { useMCP } from './contexts/MCPContext'
-import type { MCPServer } from './types/mcp'
+import { useWorkspace } from './contexts/WorkspaceContext'
+import { useConversation } from './contexts/ConversationContext'
+import type { MCPServer, MCPTransportType } from './types/mcp'
+import { TRANSPORT_OPTIONS } from './services/serverRegistry'
+import { splitShellWords, validateShellWords } from './utils/shellWords'
+
+interface AddServerValues {
+  name: string
+  transport: MCPTransportType
+  domain: string
+  command: string
+  args: string
+}
 
 function App() {
   const { actions } = useMCP()
+  const { state: workspace } = useWorkspace()
+  const { state: conversation } = useConversation()
+  // Open MCP Apps follow the switch through their host context
+  const { setColorScheme } = useMantineColorScheme()
+  const colorScheme = useComputedColorScheme('light')
   const [selectedServer, setSelectedServer] = useState<MCPServer | null>(null)
   const [addModalOpened, { open: openAddModal, close: closeAddModal }] = useDisclosure(false)
   const [toolsModalOpened, { open: openToolsModal, close: closeToolsModal }] = useDisclosure(false)
+  const [historyModalOpened, { open: openHistoryModal, close: closeHistoryModal }] = useDisclosure(false)
+  const [settingsServer, setSettingsServer] = useState<MCPServer | null>(null)
+  const [logsServer, setLogsServer] = useState<MCPServer | null>(null)
+  const [inspectorServer, setInspectorServer] = useState<MCPServer | null>(null)
+  const [detailsServer, setDetailsServer] = useState<MCPServer | null>(null)
+  const [conversationOpened, { open: openConversation, close: closeConversation }] = useDisclosure(false)
+
+  // Open the conversation whenever an app sends a message to decide on
+  const pendingTurns = conversation.turns.filter(turn => turn.status === 'pending').length
+  const pendingTurnsRef = useRef(pendingTurns)
+  useEffect(() => {
+    if (pendingTurns > pendingTurnsRef.current) {
+      openConversation()
+    }
+    pendingTurnsRef.current = pendingTurns
+  }, [pendingTurns, openConversation])
 
-  const form = useForm({
+  const form = useForm<AddServerValues>({
     initialValues: {
       name: '',
-      domain: ''
+      transport: 'streamable-http',
+      domain: '',
+      command: '',
+      args: ''
     },
     validate: {
       name: (value) => (value.length < 1 ? 'Name is required' : null),
-      domain: (value) => (value.length < 1 ? 'Domain is required' : null)
+      domain: (value, values) => (values.transport !== 'stdio' && value.length < 1 ? 'Domain is required' : null),
+      command: (value, values) => (values.transport === 'stdio' && value.length < 1 ? 'Command is required' : null),
+      args: (value, values) => (values.transport === 'stdio' ? validateShellWords(value) : null)
     }
   })
 
-  const handleAddServer = async (values: { name: string; domain: string }) => {
+  const handleAddServer = async ({ args, command, ...values }: AddServerValues) => {
     try {
-      const server: Omit<MCPServer, 'id'> = Object.assign({status: 'disconnected' as const}, values)
+      const server: Omit<MCPServer, 'id'> = values.transport === 'stdio'
+        ? { ...values, status: 'disconnected', command, args: splitShellWords(args) }
+        : { ...values, status: 'disconnected' }
       await actions.addServer(server)
       form.reset()
       closeAddModal()
@@ -58,11 +124,28 @@ function App() {
   return (
     <AppShell
       header={{ height: 70 }}
+      footer={{ height: 48, collapsed: workspace.windows.length === 0 }}
       padding="md"
     >
       <AppShell.Header>
-        <Container size="xl" h="100%" style={{ display: 'flex', alignItems: 'center' }}>
+        <Container size="xl" h="100%" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
           <Title order={2}>MCPOS Dashboard</Title>
+          <Group gap="sm">
+            <Indicator label={pendingTurns} size={16} disabled={pendingTurns === 0} color="orange">
+              <Button variant="light" leftSection={<IconMessages size={16} />} onClick={openConversation}>
+                Conversation
+              </Button>
+            </Indicator>
+            <Tooltip label={colorScheme === 'dark' ? 'Light theme' : 'Dark theme'}>
+              <ActionIcon
+                variant="default"
+                size="lg"
+                onClick={() => setColorScheme(colorScheme === 'dark' ? 'light' : 'dark')}
+              >
+                {colorScheme === 'dark' ? <IconSun size={18} /> : <IconMoon size={18} />}
+              </ActionIcon>
+            </Tooltip>
+          </Group>
         </Container>
       </AppShell.Header>
 
@@ -71,10 +154,22 @@ function App() {
           <MCPServerTable
             onOpenAddModal={openAddModal}
             onOpenToolsModal={handleOpenToolsModal}
+            onOpenSettingsModal={setSettingsServer}
+            onOpenLogsModal={setLogsServer}
+            onOpenInspectorModal={setInspectorServer}
+            onOpenDetails={setDetailsServer}
+            onOpenHistoryModal={openHistoryModal}
           />
         </Container>
       </AppShell.Main>
 
+      {/* Taskbar of the open tool windows */}
+      <AppShell.Footer>
+        <Taskbar />
+      </AppShell.Footer>
+
+      <Workspace />
+
       {/* Add Server Modal */}
       <Modal
         opened={addModalOpened}
@@ -90,11 +185,33 @@ function App() {
               placeholder="e.g., Countdown Server"
               {...form.getInputProps('name')}
             />
-            <TextInput
-              label="Domain"
-              placeholder="e.g., localhost:6001"
-              {...form.getInputProps('domain')}
+            <Select
+              label="Transport"
+              data={TRANSPORT_OPTIONS}
+              allowDeselect={false}
+              {...form.getInputProps('transport')}
             />
+            {form.values.transport === 'stdio' ? (
+              <>
+                <TextInput
+                  label="Command"
+                  placeholder="e.g., npx"
+                  {...form.getInputProps('command')}
+                />
+                <TextInput
+                  label="Arguments"
+                  placeholder="e.g., tsx server.ts --stdio"
+                  description="Quote arguments that contain spaces"
+                  {...form.getInputProps('args')}
+                />
+              </>
+            ) : (
+              <TextInput
+                label="Domain"
+                placeholder="e.g., localhost:6001"
+                {...form.getInputProps('domain')}
+              />
+            )}
             <Group justify="flex-end" gap="sm">
               <Button variant="light" onClick={closeAddModal}>
                 Cancel
@@ -114,6 +231,53 @@ function App() {
         server={selectedServer}
       />
 
+      {/* Server Settings Modal */}
+      <ServerSettingsModal
+        key={settingsServer?.id}
+        opened={settingsServer !== null}
+        onClose={() => setSettingsServer(null)}
+        server={settingsServer}
+      />
+
+      {/* Server Details Drawer */}
+      <ServerDetailsDrawer
+        opened={detailsServer !== null}
+        onClose={() => setDetailsServer(null)}
+        server={detailsServer}
+      />
+
+      {/* Server Log Console */}
+      <LogConsoleModal
+        opened={logsServer !== null}
+        onClose={() => setLogsServer(null)}
+        server={logsServer}
+      />
+
+      {/* JSON-RPC Traffic Inspector */}
+      <ProtocolInspectorModal
+        opened={inspectorServer !== null}
+        onClose={() => setInspectorServer(null)}
+        server={inspectorServer}
+      />
+
+      {/* Execution History Modal */}
+      <HistoryModal
+        opened={historyModalOpened}
+        onClose={closeHistoryModal}
+      />
+
+      {/* Approval of sampling requests from servers */}
+      <SamplingDialog />
+
+      {/* Forms servers ask the user to fill in */}
+      <ElicitationDialog />
+
+      {/* Messages MCP Apps send to the conversation */}
+      <ConversationDrawer
+        opened={conversationOpened}
+        onClose={closeConversation}
+      />
+
     </AppShell>
   )
 }
@@ -0,0 +1,47 @@
+import { useState, useRef } from 'react'
+import { Autocomplete, type AutocompleteProps } from '@mantine/core'
+import { useDebouncedCallback } from '@mantine/hooks'
+
+// Delay before asking the server for completions while typing
+const COMPLETION_DEBOUNCE = 250
+
+interface CompletionInputProps extends Omit<AutocompleteProps, 'value' | 'onChange' | 'data'> {
+  value: string
+  onChange: (value: string) => void
+  // Suggestions for the current text, usually from completion/complete
+  complete: (value: string) => Promise<string[]>
+}
+
+/**
+ * Text input with a typeahead of the values a server suggests
+ */
+export function CompletionInput({ value, onChange, complete, ...props }: CompletionInputProps) {
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  // Number of the latest request, replies to older ones are dropped
+  const requestRef = useRef(0)
+
+  const fetchSuggestions = useDebouncedCallback((text: string) => {
+    const request = ++requestRef.current
+    complete(text)
+      // Suggestions are a convenience, a failed request just offers none
+      .catch(() => [])
+      .then(next => {
+        if (request === requestRef.current) {
+          setSuggestions(next)
+        }
+      })
+  }, COMPLETION_DEBOUNCE)
+
+  return (
+    <Autocomplete
+      {...props}
+      value={value}
+      data={suggestions}
+      onFocus={() => fetchSuggestions(value)}
+      onChange={(next) => {
+        onChange(next)
+        fetchSuggestions(next)
+      }}
+    />
+  )
+}
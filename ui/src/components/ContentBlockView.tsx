@@ -0,0 +1,26 @@
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js'
+import { Text, Group, Image } from '@mantine/core'
+import { IconLink } from '@tabler/icons-react'
+import { ResourceContentView } from './ResourcesPanel'
+
+// Renders a single content block of a prompt message or tool result by its type
+export function ContentBlockView({ content }: { content: ContentBlock }) {
+  switch (content.type) {
+    case 'text':
+      return <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>{content.text}</Text>
+    case 'image':
+      return <Image src={`data:${content.mimeType};base64,${content.data}`} fit="contain" mah={300} />
+    case 'audio':
+      return <audio controls src={`data:${content.mimeType};base64,${content.data}`} />
+    case 'resource':
+      return <ResourceContentView content={content.resource} />
+    case 'resource_link':
+      return (
+        <Group gap="xs">
+          <IconLink size={14} />
+          <Text size="sm">{content.title ?? content.name}</Text>
+          <Text size="xs" ff="monospace" c="dimmed">{content.uri}</Text>
+        </Group>
+      )
+  }
+}
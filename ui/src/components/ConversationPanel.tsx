@@ -0,0 +1,154 @@
+import {
+  Drawer,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Paper,
+  Alert
+} from '@mantine/core'
+import { IconTool, IconCheck, IconX, IconMessages } from '@tabler/icons-react'
+import type { ConversationTurn } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { useConversation } from '../contexts/ConversationContext'
+import { ContentBlockView } from './ContentBlockView'
+import { ModelContextView } from './ModelContextView'
+
+interface ConversationDrawerProps {
+  opened: boolean
+  onClose: () => void
+}
+
+const STATUS_COLORS: Record<ConversationTurn['status'], string> = {
+  pending: 'orange',
+  accepted: 'green',
+  rejected: 'red'
+}
+
+// Consecutive turns of the same tool call, shown under one header
+interface TurnGroup {
+  key: string
+  turns: ConversationTurn[]
+}
+
+function groupByToolCall(turns: ConversationTurn[]): TurnGroup[] {
+  const groups: TurnGroup[] = []
+  turns.forEach(turn => {
+    const key = turn.executionId ?? `${turn.serverId}:${turn.toolName}`
+    const last = groups[groups.length - 1]
+    if (last?.key === key) {
+      last.turns.push(turn)
+    } else {
+      groups.push({ key, turns: [turn] })
+    }
+  })
+  return groups
+}
+
+function TurnView({ turn }: { turn: ConversationTurn }) {
+  const { actions } = useConversation()
+
+  return (
+    <Paper
+      withBorder
+      p="sm"
+      ml="xl"
+      bg={turn.status === 'pending' ? 'var(--mantine-color-default-hover)' : undefined}
+      style={{ opacity: turn.status === 'rejected' ? 0.6 : 1 }}
+    >
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Badge size="sm" variant="light" color="blue">user</Badge>
+          <Group gap="xs">
+            <Text size="xs" c="dimmed">{new Date(turn.receivedAt).toLocaleTimeString()}</Text>
+            <Badge size="sm" variant="outline" color={STATUS_COLORS[turn.status]}>{turn.status}</Badge>
+          </Group>
+        </Group>
+        {turn.content.map((block, index) => (
+          <ContentBlockView key={index} content={block} />
+        ))}
+        {turn.status === 'pending' && (
+          <Group justify="flex-end" gap="xs">
+            <Button
+              size="xs"
+              variant="light"
+              color="red"
+              leftSection={<IconX size={14} />}
+              onClick={() => actions.reject(turn.id)}
+            >
+              Reject
+            </Button>
+            <Button
+              size="xs"
+              leftSection={<IconCheck size={14} />}
+              onClick={() => actions.accept(turn.id)}
+            >
+              Accept
+            </Button>
+          </Group>
+        )}
+      </Stack>
+    </Paper>
+  )
+}
+
+/**
+ * Transcript of the messages MCP Apps sent as user turns, grouped by the tool
+ * call of the app. Pending messages wait for the user to accept or reject them.
+ */
+export function ConversationDrawer({ opened, onClose }: ConversationDrawerProps) {
+  const { state: mcpState } = useMCP()
+  const { state, actions } = useConversation()
+  const settled = state.turns.some(turn => turn.status !== 'pending')
+
+  return (
+    <Drawer
+      opened={opened}
+      onClose={onClose}
+      position="right"
+      size="md"
+      title={
+        <Group gap="xs">
+          <IconMessages size={18} />
+          <Text fw={500}>Conversation</Text>
+        </Group>
+      }
+    >
+      {state.turns.length === 0 ? (
+        <Alert color="blue">
+          Messages MCP Apps send to the conversation show up here
+        </Alert>
+      ) : (
+        <Stack gap="md">
+          <Group justify="flex-end">
+            <Button size="xs" variant="subtle" color="gray" disabled={!settled} onClick={actions.clear}>
+              Clear
+            </Button>
+          </Group>
+          {groupByToolCall(state.turns).map(({ key, turns }) => {
+            const { serverId, toolName, executionId } = turns[0]
+            const server = mcpState.servers.find(server => server.id === serverId)
+            const execution = executionId && mcpState.history.find(execution => execution.id === executionId)
+            const modelContext = executionId ? mcpState.modelContexts[executionId] : undefined
+
+            return (
+              <Stack key={`${key}-${turns[0].id}`} gap="xs">
+                <Group gap="xs" wrap="nowrap">
+                  <IconTool size={14} />
+                  <Badge size="sm" variant="light">{toolName}</Badge>
+                  <Text size="xs" c="dimmed" truncate>
+                    {server?.name ?? 'Unknown server'}
+                    {execution && ` · ${new Date(execution.startedAt).toLocaleTimeString()}`}
+                  </Text>
+                </Group>
+                {modelContext && <ModelContextView context={modelContext} />}
+                {turns.map(turn => <TurnView key={turn.id} turn={turn} />)}
+              </Stack>
+            )
+          })}
+        </Stack>
+      )}
+    </Drawer>
+  )
+}
@@ -0,0 +1,117 @@
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js'
+import { useState, type FormEvent } from 'react'
+import { Modal, Stack, Group, Text, Badge, Button, Paper, Code } from '@mantine/core'
+import { IconTool } from '@tabler/icons-react'
+import type { ToolExecution } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { useElicitation, type ElicitationRequest } from '../contexts/ElicitationContext'
+import { type JsonSchema, type SchemaErrors, getDefaultValue, validateSchema } from '../utils/jsonSchema'
+import { SchemaForm } from './SchemaForm'
+
+// The tool calls a request most likely came from: those of the server that
+// were running when it arrived
+function TriggeringCalls({ executions }: { executions: ToolExecution[] }) {
+  return (
+    <Paper withBorder p="sm" bg="var(--mantine-color-default-hover)">
+      <Stack gap={6}>
+        <Text size="xs" c="dimmed">Asked while running</Text>
+        {executions.map((execution) => (
+          <Group key={execution.id} gap="xs" wrap="nowrap">
+            <IconTool size={14} />
+            <Badge size="sm" variant="light">{execution.toolName}</Badge>
+            <Code style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {JSON.stringify(execution.parameters)}
+            </Code>
+            <Text size="xs" c="dimmed" style={{ flexShrink: 0 }}>
+              {new Date(execution.startedAt).toLocaleTimeString()}
+            </Text>
+          </Group>
+        ))}
+      </Stack>
+    </Paper>
+  )
+}
+
+// Remounted per request, so every form starts from the schema defaults
+function ElicitationForm({ request }: { request: ElicitationRequest }) {
+  const { actions } = useElicitation()
+  const schema = request.params.requestedSchema as JsonSchema
+  const [values, setValues] = useState(() => (getDefaultValue(schema) ?? {}) as Record<string, unknown>)
+  const [errors, setErrors] = useState<SchemaErrors>({})
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+
+    const validationErrors = validateSchema(schema, values)
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length === 0) {
+      actions.respond(request.id, { action: 'accept', content: values as ElicitResult['content'] })
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Stack gap="md">
+        <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>{request.params.message}</Text>
+        <SchemaForm schema={schema} value={values} onChange={setValues} errors={errors} />
+        {/* Errors of the form as a whole, e.g. a schema that doesn't compile */}
+        {errors[''] && <Text size="xs" c="red">{errors['']}</Text>}
+        <Group justify="flex-end" gap="sm">
+          <Button variant="subtle" color="gray" onClick={() => actions.respond(request.id, { action: 'cancel' })}>
+            Cancel
+          </Button>
+          <Button variant="light" color="red" onClick={() => actions.respond(request.id, { action: 'decline' })}>
+            Decline
+          </Button>
+          <Button type="submit">
+            Accept
+          </Button>
+        </Group>
+      </Stack>
+    </form>
+  )
+}
+
+/**
+ * Shows servers' elicitation requests one at a time, along with the tool call
+ * that is waiting on the answer
+ */
+export function ElicitationDialog() {
+  const { state: mcpState } = useMCP()
+  const { state, actions } = useElicitation()
+  const request = state.requests[0]
+  const server = request && mcpState.servers.find(server => server.id === request.serverId)
+  const executions = request
+    ? mcpState.history.filter(execution =>
+        execution.serverId === request.serverId &&
+        execution.status === 'running' &&
+        execution.startedAt <= request.receivedAt
+      )
+    : []
+
+  return (
+    <Modal
+      opened={!!request}
+      // Dismissing the dialog cancels, unlike an explicit decline
+      onClose={() => request && actions.respond(request.id, { action: 'cancel' })}
+      title={
+        <Group gap="xs">
+          <Text fw={500}>{server?.name ?? 'A server'} asks for input</Text>
+          {state.requests.length > 1 && (
+            <Badge size="sm" variant="light">{state.requests.length - 1} more waiting</Badge>
+          )}
+        </Group>
+      }
+      size="lg"
+      centered
+      closeOnClickOutside={false}
+    >
+      {request && (
+        <Stack gap="md">
+          {executions.length > 0 && <TriggeringCalls executions={executions} />}
+          <ElicitationForm key={request.id} request={request} />
+        </Stack>
+      )}
+    </Modal>
+  )
+}
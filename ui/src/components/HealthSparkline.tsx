@@ -0,0 +1,61 @@
+import { Group, Stack, Text, Tooltip } from '@mantine/core'
+import type { HealthSample } from '../types/mcp'
+import { HEALTH_POLICY, isHealthy, summarizeHealth } from '../services/healthMonitor'
+
+const WIDTH = 120
+const HEIGHT = 24
+const BAR_WIDTH = WIDTH / HEALTH_POLICY.historySize
+
+const formatLatency = (latency?: number) => (latency === undefined ? '-' : `${latency}ms`)
+
+/**
+ * Recent health checks, one bar per check: its height is the ping latency,
+ * failed checks show as full red bars
+ */
+export function HealthSparkline({ samples }: { samples: HealthSample[] }) {
+  if (samples.length === 0) {
+    return <Text size="xs" c="dimmed">No checks yet</Text>
+  }
+
+  const { p50, p95, p99, uptime } = summarizeHealth(samples)
+  const maxLatency = Math.max(1, ...samples.map(sample => sample.latency ?? 0))
+  // Newest check on the right
+  const offset = WIDTH - samples.length * BAR_WIDTH
+  const last = samples[samples.length - 1]
+
+  const details = (
+    <Stack gap={0}>
+      <Text size="xs">p50 {formatLatency(p50)} · p95 {formatLatency(p95)} · p99 {formatLatency(p99)}</Text>
+      <Text size="xs">Uptime {(uptime * 100).toFixed(1)}% over {samples.length} checks</Text>
+      {last.probe !== undefined && (
+        <Text size="xs">Health endpoint {last.probe ? 'OK' : 'failing'}</Text>
+      )}
+    </Stack>
+  )
+
+  return (
+    <Tooltip label={details}>
+      <Group gap={6} wrap="nowrap">
+        <svg width={WIDTH} height={HEIGHT} role="img" aria-label="Health history">
+          {samples.map((sample, index) => {
+            const healthy = isHealthy(sample)
+            const height = healthy ? Math.max(2, (sample.latency! / maxLatency) * HEIGHT) : HEIGHT
+            return (
+              <rect
+                key={sample.timestamp}
+                x={offset + index * BAR_WIDTH}
+                y={HEIGHT - height}
+                width={Math.max(1, BAR_WIDTH - 0.5)}
+                height={height}
+                fill={healthy ? 'var(--mantine-color-green-6)' : 'var(--mantine-color-red-6)'}
+              />
+            )
+          })}
+        </svg>
+        <Text size="xs" c="dimmed" style={{ whiteSpace: 'nowrap' }}>
+          {formatLatency(p50)}
+        </Text>
+      </Group>
+    </Tooltip>
+  )
+}
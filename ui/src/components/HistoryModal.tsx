@@ -0,0 +1,384 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { useState } from 'react'
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Card,
+  Badge,
+  Button,
+  ActionIcon,
+  Tooltip,
+  Checkbox,
+  JsonInput,
+  Alert,
+  Code,
+  Paper,
+  ScrollArea,
+  Collapse,
+  Divider
+} from '@mantine/core'
+import { notifications } from '@mantine/notifications'
+import { modals } from '@mantine/modals'
+import {
+  IconChevronDown,
+  IconChevronRight,
+  IconPlayerPlay,
+  IconPlayerStop,
+  IconFileExport,
+  IconTrash,
+  IconAlertCircle,
+  IconGitCompare
+} from '@tabler/icons-react'
+import type { MCPServer, ToolExecution } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { toHttpSnippet } from '../services/executionHistory'
+import { isServerConnected } from '../services/serverRegistry'
+import { downloadFile } from '../utils/fileUtils'
+import { diffLines } from '../utils/diff'
+import { JsonTree } from './JsonTree'
+import { ToolResultView } from './ToolResultView'
+
+interface HistoryModalProps {
+  opened: boolean
+  onClose: () => void
+}
+
+const STATUS_COLORS: Record<ToolExecution['status'], string> = {
+  running: 'blue',
+  completed: 'green',
+  cancelled: 'yellow',
+  error: 'red'
+}
+
+const DIFF_COLORS = {
+  same: undefined,
+  added: 'var(--mantine-color-green-light)',
+  removed: 'var(--mantine-color-red-light)'
+}
+
+const DIFF_PREFIXES = { same: ' ', added: '+', removed: '-' }
+
+// What two runs are compared by: their result, or the error they failed with
+const comparable = (execution: ToolExecution) =>
+  JSON.stringify(execution.result ?? { error: execution.error }, null, 2)
+
+function formatDuration(execution: ToolExecution): string {
+  if (!execution.finishedAt) return ''
+  const ms = execution.finishedAt - execution.startedAt
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function DiffView({ before, after }: { before: ToolExecution; after: ToolExecution }) {
+  const lines = diffLines(comparable(before), comparable(after))
+
+  return (
+    <Paper withBorder p="xs">
+      <Text size="xs" c="dimmed" mb="xs">
+        {new Date(before.startedAt).toLocaleString()} → {new Date(after.startedAt).toLocaleString()}
+      </Text>
+      <ScrollArea.Autosize mah={300}>
+        {lines.map((line, index) => (
+          <Text
+            key={index}
+            ff="monospace"
+            size="xs"
+            style={{ whiteSpace: 'pre', backgroundColor: DIFF_COLORS[line.type] }}
+          >
+            {DIFF_PREFIXES[line.type]} {line.text}
+          </Text>
+        ))}
+      </ScrollArea.Autosize>
+    </Paper>
+  )
+}
+
+interface ExecutionDetailsProps {
+  execution: ToolExecution
+  tool: Tool
+  running: boolean
+  onRun: (args: Record<string, unknown>) => void
+}
+
+function ExecutionDetails({ execution, tool, running, onRun }: ExecutionDetailsProps) {
+  const [editing, setEditing] = useState(false)
+  const [args, setArgs] = useState(() => JSON.stringify(execution.parameters, null, 2))
+  const [parseError, setParseError] = useState<string | null>(null)
+
+  const handleRun = () => {
+    try {
+      onRun(JSON.parse(args))
+      setParseError(null)
+    } catch {
+      setParseError('Invalid JSON')
+    }
+  }
+
+  return (
+    <Stack gap="sm" pt="sm">
+      <Group justify="space-between">
+        <Text size="sm" fw={500}>Arguments</Text>
+        <Button size="xs" variant="subtle" onClick={() => setEditing(current => !current)}>
+          {editing ? 'Cancel' : 'Edit & Re-run'}
+        </Button>
+      </Group>
+      {editing ? (
+        <Stack gap="xs">
+          <JsonInput autosize minRows={3} formatOnBlur value={args} onChange={setArgs} error={parseError} />
+          <Group justify="flex-end">
+            <Button size="xs" leftSection={<IconPlayerPlay size={14} />} disabled={running} onClick={handleRun}>
+              Run
+            </Button>
+          </Group>
+        </Stack>
+      ) : (
+        <Paper withBorder p="xs">
+          <JsonTree value={execution.parameters} />
+        </Paper>
+      )}
+
+      {(execution.notifications?.length ?? 0) > 0 && (
+        <>
+          <Text size="sm" fw={500}>Notifications</Text>
+          <ScrollArea.Autosize mah={150}>
+            <Code block>
+              {execution.notifications!.map(notification =>
+                `${new Date(notification.timestamp).toLocaleTimeString()} [${notification.level}] ${
+                  typeof notification.data === 'string' ? notification.data : JSON.stringify(notification.data)
+                }`
+              ).join('\n')}
+            </Code>
+          </ScrollArea.Autosize>
+        </>
+      )}
+
+      {execution.error && (
+        <Alert icon={<IconAlertCircle size={16} />} color={execution.status === 'cancelled' ? 'yellow' : 'red'}>
+          {execution.error}
+        </Alert>
+      )}
+
+      {execution.result && (
+        <>
+          <Text size="sm" fw={500}>Result</Text>
+          <ToolResultView tool={tool} result={execution.result} />
+        </>
+      )}
+    </Stack>
+  )
+}
+
+export function HistoryModal({ opened, onClose }: HistoryModalProps) {
+  const { state, actions } = useMCP()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  // Up to two runs picked for the diff, in the order they were picked
+  const [comparedIds, setComparedIds] = useState<string[]>([])
+  // Re-runs in progress, by the id of the run they replay
+  const [reruns, setReruns] = useState<Record<string, AbortController>>({})
+
+  const history = state.history
+  const findServer = (id: string) => state.servers.find(server => server.id === id)
+  // The tool as last listed, so results are checked against its outputSchema
+  const findTool = (execution: ToolExecution): Tool =>
+    findServer(execution.serverId)?.tools?.find(tool => tool.name === execution.toolName)
+      ?? { name: execution.toolName, inputSchema: { type: 'object' } }
+
+  const compared = comparedIds
+    .map(id => history.find(execution => execution.id === id))
+    .filter((execution): execution is ToolExecution => !!execution)
+    .sort((a, b) => a.startedAt - b.startedAt)
+
+  const toggleCompared = (id: string) => {
+    setComparedIds(current => current.includes(id)
+      ? current.filter(comparedId => comparedId !== id)
+      : [...current, id].slice(-2))
+  }
+
+  const handleRun = async (execution: ToolExecution, args: Record<string, unknown> = execution.parameters) => {
+    const abortController = new AbortController()
+    setReruns(current => ({ ...current, [execution.id]: abortController }))
+
+    try {
+      const result = await actions.callTool(execution.serverId, execution.toolName, args, { signal: abortController.signal })
+      notifications.show({
+        title: result.isError ? 'Tool Error' : 'Tool Executed',
+        message: `${execution.toolName} ${result.isError ? 'returned an error' : 'completed successfully'}`,
+        color: result.isError ? 'red' : 'green'
+      })
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        notifications.show({
+          title: 'Tool Stopped',
+          message: `${execution.toolName} was stopped`,
+          color: 'yellow'
+        })
+        return
+      }
+      notifications.show({
+        title: 'Execution Error',
+        message: `Failed to execute ${execution.toolName}: ${(error as Error).message}`,
+        color: 'red'
+      })
+    } finally {
+      setReruns(current => {
+        const next = { ...current }
+        delete next[execution.id]
+        return next
+      })
+    }
+  }
+
+  const handleExport = (execution: ToolExecution, server: MCPServer) => {
+    const download = (includeSecrets: boolean) =>
+      downloadFile(`${execution.toolName}.http`, toHttpSnippet(server, execution, includeSecrets), 'text/plain')
+
+    if (Object.keys(server.headers ?? {}).length === 0) {
+      download(false)
+      return
+    }
+
+    // Header values only go into the file when the user asks for them
+    modals.openConfirmModal({
+      title: 'Export header values?',
+      children: (
+        <Text size="sm">
+          {server.name} sends request headers, which may hold tokens and API keys. Left out, they are
+          written as {'{{name}}'} variables to fill in.
+        </Text>
+      ),
+      labels: { confirm: 'Include values', cancel: 'Use variables' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => download(true),
+      onCancel: () => download(false)
+    })
+  }
+
+  const handleRemove = (id: string) => {
+    setComparedIds(current => current.filter(comparedId => comparedId !== id))
+    actions.removeExecution(id)
+  }
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Execution History" size="xl" centered>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Text size="sm" c="dimmed">
+            {history.length} runs, tick two to compare their results
+          </Text>
+          <Button
+            size="xs"
+            variant="light"
+            color="red"
+            leftSection={<IconTrash size={14} />}
+            disabled={history.length === 0}
+            onClick={() => {
+              setComparedIds([])
+              actions.clearHistory()
+            }}
+          >
+            Clear
+          </Button>
+        </Group>
+
+        {compared.length === 2 && (
+          <Stack gap="xs">
+            <Group gap="xs">
+              <IconGitCompare size={16} />
+              <Text size="sm" fw={500}>Result diff</Text>
+            </Group>
+            <DiffView before={compared[0]} after={compared[1]} />
+          </Stack>
+        )}
+
+        {history.length === 0 && (
+          <Text ta="center" c="dimmed" py="xl">
+            No tool calls yet
+          </Text>
+        )}
+
+        {history.map((execution) => {
+          const server = findServer(execution.serverId)
+          const expanded = expandedId === execution.id
+          const rerun = reruns[execution.id]
+
+          return (
+            <Card key={execution.id} withBorder p="sm">
+              <Group justify="space-between" wrap="nowrap">
+                <Group gap="sm" wrap="nowrap" style={{ minWidth: 0 }}>
+                  <Checkbox
+                    checked={comparedIds.includes(execution.id)}
+                    onChange={() => toggleCompared(execution.id)}
+                    aria-label="Compare"
+                  />
+                  <ActionIcon variant="subtle" onClick={() => setExpandedId(expanded ? null : execution.id)}>
+                    {expanded ? <IconChevronDown size={16} /> : <IconChevronRight size={16} />}
+                  </ActionIcon>
+                  <Stack gap={0} style={{ minWidth: 0 }}>
+                    <Group gap="xs">
+                      <Text fw={500}>{execution.toolName}</Text>
+                      <Badge size="sm" variant="light" color={STATUS_COLORS[execution.status]}>
+                        {execution.status}
+                      </Badge>
+                    </Group>
+                    <Text size="xs" c="dimmed" truncate>
+                      {server?.name ?? 'Removed server'} · {new Date(execution.startedAt).toLocaleString()}
+                      {execution.finishedAt && ` · ${formatDuration(execution)}`}
+                    </Text>
+                  </Stack>
+                </Group>
+                <Group gap={4} wrap="nowrap">
+                  {rerun ? (
+                    <Tooltip label="Stop">
+                      <ActionIcon variant="light" color="red" onClick={() => rerun.abort()}>
+                        <IconPlayerStop size={16} />
+                      </ActionIcon>
+                    </Tooltip>
+                  ) : (
+                    <Tooltip label="Re-run">
+                      <ActionIcon
+                        variant="light"
+                        disabled={!server || !isServerConnected(server)}
+                        onClick={() => handleRun(execution)}
+                      >
+                        <IconPlayerPlay size={16} />
+                      </ActionIcon>
+                    </Tooltip>
+                  )}
+                  <Tooltip label="Export as .http">
+                    <ActionIcon
+                      variant="light"
+                      color="gray"
+                      disabled={!server || server.transport === 'stdio'}
+                      onClick={() => server && handleExport(execution, server)}
+                    >
+                      <IconFileExport size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                  <Tooltip label="Delete">
+                    <ActionIcon variant="light" color="red" onClick={() => handleRemove(execution.id)}>
+                      <IconTrash size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                </Group>
+              </Group>
+              <Collapse in={expanded}>
+                {expanded && (
+                  <>
+                    <Divider mt="sm" />
+                    <ExecutionDetails
+                      execution={execution}
+                      tool={findTool(execution)}
+                      running={!!rerun}
+                      onRun={(args) => handleRun(execution, args)}
+                    />
+                  </>
+                )}
+              </Collapse>
+            </Card>
+          )
+        })}
+      </Stack>
+    </Modal>
+  )
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { Box, Group, Text, UnstyledButton } from '@mantine/core'
+import { IconChevronDown, IconChevronRight } from '@tabler/icons-react'
+
+interface JsonTreeProps {
+  value: unknown
+  // Key or index of the value in its parent
+  name?: string
+  // Levels expanded on first render
+  expandDepth?: number
+  depth?: number
+}
+
+const VALUE_COLORS: Record<string, string> = {
+  string: 'green',
+  number: 'blue',
+  boolean: 'grape',
+  null: 'dimmed'
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  const type = value === null ? 'null' : typeof value
+  return (
+    <Text span ff="monospace" size="sm" c={VALUE_COLORS[type]}>
+      {JSON.stringify(value)}
+    </Text>
+  )
+}
+
+function JsonKey({ name }: { name?: string }) {
+  if (name === undefined) return null
+  return <Text span ff="monospace" size="sm" fw={500}>{name}: </Text>
+}
+
+/**
+ * Collapsible view of a JSON value
+ */
+export function JsonTree({ value, name, expandDepth = 2, depth = 0 }: JsonTreeProps) {
+  const [expanded, setExpanded] = useState(depth < expandDepth)
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <Box pl={depth > 0 ? 'md' : 0}>
+        <JsonKey name={name} />
+        <JsonValue value={value} />
+      </Box>
+    )
+  }
+
+  const isArray = Array.isArray(value)
+  const entries = isArray
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value)
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}']
+
+  return (
+    <Box pl={depth > 0 ? 'md' : 0}>
+      <UnstyledButton onClick={() => setExpanded(current => !current)}>
+        <Group gap={4} wrap="nowrap">
+          {expanded ? <IconChevronDown size={12} /> : <IconChevronRight size={12} />}
+          <Text span ff="monospace" size="sm">
+            <JsonKey name={name} />
+            {expanded ? open : `${open} ${entries.length} ${isArray ? 'items' : 'keys'} ${close}`}
+          </Text>
+        </Group>
+      </UnstyledButton>
+      {expanded && (
+        <>
+          {entries.map(([key, item]) => (
+            <JsonTree key={key} name={key} value={item} expandDepth={expandDepth} depth={depth + 1} />
+          ))}
+          <Text ff="monospace" size="sm">{close}</Text>
+        </>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,202 @@
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js'
+import { useState, useEffect, useRef } from 'react'
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Select,
+  TextInput,
+  SegmentedControl,
+  ScrollArea,
+  Paper
+} from '@mantine/core'
+import { notifications } from '@mantine/notifications'
+import { IconSearch, IconTrash } from '@tabler/icons-react'
+import type { MCPServer, LogEntry } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { isServerConnected } from '../services/serverRegistry'
+
+interface LogConsoleModalProps {
+  opened: boolean
+  onClose: () => void
+  server: MCPServer | null
+}
+
+// RFC 5424 severities, least severe first
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency']
+
+const LEVEL_COLORS: Record<LoggingLevel, string> = {
+  debug: 'gray',
+  info: 'blue',
+  notice: 'teal',
+  warning: 'yellow',
+  error: 'red',
+  critical: 'red',
+  alert: 'pink',
+  emergency: 'grape'
+}
+
+type SourceFilter = 'all' | LogEntry['source']
+
+const formatData = (data: unknown) => (typeof data === 'string' ? data : JSON.stringify(data))
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`
+}
+
+/**
+ * A single log message: time, level, source, logger and data
+ */
+export function LogEntryRow({ entry }: { entry: LogEntry }) {
+  return (
+    <Group gap="xs" wrap="nowrap" align="flex-start">
+      <Text size="xs" ff="monospace" c="dimmed" style={{ flexShrink: 0 }}>
+        {formatTime(entry.timestamp)}
+      </Text>
+      <Badge size="xs" variant="light" color={LEVEL_COLORS[entry.level]} style={{ flexShrink: 0 }}>
+        {entry.level}
+      </Badge>
+      {entry.source === 'app' && (
+        <Badge size="xs" variant="outline" color="grape" style={{ flexShrink: 0 }}>app</Badge>
+      )}
+      {entry.logger && (
+        <Text size="xs" ff="monospace" fw={500} style={{ flexShrink: 0 }}>{entry.logger}</Text>
+      )}
+      <Text size="xs" ff="monospace" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+        {formatData(entry.data)}
+      </Text>
+    </Group>
+  )
+}
+
+/**
+ * Log console of one server: its notifications/message and its apps' logs
+ */
+export function LogConsoleModal({ opened, onClose, server }: LogConsoleModalProps) {
+  const { state, actions } = useMCP()
+  const [minLevel, setMinLevel] = useState<LoggingLevel>('debug')
+  const [source, setSource] = useState<SourceFilter>('all')
+  const [search, setSearch] = useState('')
+  const viewportRef = useRef<HTMLDivElement>(null)
+
+  const currentServer = server ? state.servers.find(s => s.id === server.id) : null
+  const canSetLevel = currentServer && isServerConnected(currentServer) && actions.supportsLogging(currentServer.id)
+  const query = search.trim().toLowerCase()
+
+  const entries = state.notifications.filter(entry =>
+    entry.serverId === server?.id &&
+    LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(minLevel) &&
+    (source === 'all' || entry.source === source) &&
+    (!query || `${entry.logger ?? ''} ${formatData(entry.data)}`.toLowerCase().includes(query))
+  )
+
+  // Follow new messages
+  useEffect(() => {
+    viewportRef.current?.scrollTo({ top: viewportRef.current.scrollHeight })
+  }, [entries.length])
+
+  const handleSetLevel = async (level: LoggingLevel) => {
+    if (!server) return
+    try {
+      await actions.setLoggingLevel(server.id, level)
+      notifications.show({
+        title: 'Log Level Set',
+        message: `${server.name} now logs from ${level} up`,
+        color: 'green'
+      })
+    } catch (error) {
+      notifications.show({
+        title: 'Log Level Failed',
+        message: (error as Error).message,
+        color: 'red'
+      })
+    }
+  }
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={server ? `Logs - ${server.name}` : 'Logs'}
+      size="xl"
+      centered
+    >
+      <Stack gap="sm">
+        <Group gap="sm" align="flex-end">
+          <TextInput
+            size="xs"
+            label="Search"
+            placeholder="Logger or message"
+            leftSection={<IconSearch size={14} />}
+            value={search}
+            onChange={(event) => setSearch(event.currentTarget.value)}
+            style={{ flex: 1 }}
+          />
+          <Select
+            size="xs"
+            label="Show from"
+            data={LOG_LEVELS}
+            value={minLevel}
+            allowDeselect={false}
+            onChange={(level) => level && setMinLevel(level as LoggingLevel)}
+            w={120}
+          />
+          <SegmentedControl
+            size="xs"
+            value={source}
+            onChange={(value) => setSource(value as SourceFilter)}
+            data={[
+              { value: 'all', label: 'All' },
+              { value: 'server', label: 'Server' },
+              { value: 'app', label: 'Apps' }
+            ]}
+          />
+        </Group>
+
+        <Group justify="space-between" align="flex-end">
+          <Select
+            size="xs"
+            label="Server level"
+            description={canSetLevel ? 'Sent with logging/setLevel' : 'Server not connected or without logging'}
+            placeholder="Server default"
+            data={LOG_LEVELS}
+            value={server ? state.logLevels[server.id] ?? null : null}
+            allowDeselect={false}
+            disabled={!canSetLevel}
+            onChange={(level) => level && handleSetLevel(level as LoggingLevel)}
+            w={240}
+          />
+          <Button
+            size="xs"
+            variant="light"
+            color="red"
+            leftSection={<IconTrash size={14} />}
+            onClick={() => server && actions.clearNotifications(server.id)}
+          >
+            Clear
+          </Button>
+        </Group>
+
+        <Paper withBorder p="xs">
+          <ScrollArea h={400} viewportRef={viewportRef}>
+            {entries.length === 0 ? (
+              <Text size="sm" c="dimmed" ta="center" py="xl">
+                No log messages
+              </Text>
+            ) : (
+              <Stack gap={4}>
+                {entries.map((entry) => (
+                  <LogEntryRow key={entry.id} entry={entry} />
+                ))}
+              </Stack>
+            )}
+          </ScrollArea>
+        </Paper>
+      </Stack>
+    </Modal>
+  )
+}
@@ -7,19 +7,31 @@ import {
   Stack,
   Paper,
   ActionIcon,
-  Tooltip
+  Tooltip,
+  FileButton,
+  Indicator
 } from '@mantine/core'
 import { notifications } from '@mantine/notifications'
-import { IconPlus, IconEye, IconSettings, IconPower, IconPlugOff } from '@tabler/icons-react'
+import { modals } from '@mantine/modals'
+import { IconPlus, IconEye, IconSettings, IconPower, IconPlugOff, IconDownload, IconUpload, IconHistory, IconTerminal2, IconArrowsExchange, IconInfoCircle } from '@tabler/icons-react'
 import type { MCPServer } from '../types/mcp'
 import { useMCP } from '../contexts/MCPContext'
+import { downloadJson } from '../utils/fileUtils'
+import { joinShellWords } from '../utils/shellWords'
+import { getServerUrl, isServerConnected, hasSecrets } from '../services/serverRegistry'
+import { HealthSparkline } from './HealthSparkline'
 
 interface MCPServerTableProps {
   onOpenAddModal: () => void
   onOpenToolsModal: (server: MCPServer) => void
+  onOpenSettingsModal: (server: MCPServer) => void
+  onOpenLogsModal: (server: MCPServer) => void
+  onOpenInspectorModal: (server: MCPServer) => void
+  onOpenDetails: (server: MCPServer) => void
+  onOpenHistoryModal: () => void
 }
 
-export function MCPServerTable({ onOpenAddModal, onOpenToolsModal }: MCPServerTableProps) {
+export function MCPServerTable({ onOpenAddModal, onOpenToolsModal, onOpenSettingsModal, onOpenLogsModal, onOpenInspectorModal, onOpenDetails, onOpenHistoryModal }: MCPServerTableProps) {
   const { state, actions } = useMCP()
 
   const handleViewTools = async (server: MCPServer) => {
@@ -41,7 +53,7 @@ export function MCPServerTable({ onOpenAddModal, onOpenToolsModal }: MCPServerTa
 
   const handleToggleConnection = async (server: MCPServer) => {
     try {
-      if (server.status === 'connected') {
+      if (isServerConnected(server) || server.status === 'reconnecting') {
         await actions.disconnectFromServer(server.id)
         notifications.show({
           title: 'Disconnected',
@@ -73,67 +85,185 @@ export function MCPServerTable({ onOpenAddModal, onOpenToolsModal }: MCPServerTa
     }
   }
 
+  const handleExport = () => {
+    const download = (includeSecrets: boolean) => downloadJson('mcpos-servers.json', actions.exportServers(includeSecrets))
+
+    if (!state.servers.some(hasSecrets)) {
+      download(false)
+      return
+    }
+
+    // Secrets only go into the file when the user asks for them
+    modals.openConfirmModal({
+      title: 'Export secrets?',
+      children: (
+        <Text size="sm">
+          Some servers have request headers or environment variables, which may hold tokens and API keys.
+          Anyone with the exported file can read them.
+        </Text>
+      ),
+      labels: { confirm: 'Include secrets', cancel: 'Leave them out' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => download(true),
+      onCancel: () => download(false)
+    })
+  }
+
+  const handleImport = async (file: File | null) => {
+    if (!file) return
+
+    try {
+      const { servers, skipped } = await actions.importServers(await file.text())
+      notifications.show({
+        title: 'Servers Imported',
+        message: skipped.length > 0
+          ? `Imported ${servers.length} server(s), skipped unsupported: ${skipped.join(', ')}`
+          : `Imported ${servers.length} server(s)`,
+        color: skipped.length > 0 ? 'yellow' : 'green'
+      })
+    } catch (error) {
+      notifications.show({
+        title: 'Import Failed',
+        message: (error as Error).message,
+        color: 'red'
+      })
+    }
+  }
+
   const getStatusBadgeProps = (status: MCPServer['status']) => {
     switch (status) {
       case 'connected':
         return { color: 'green', children: 'Connected' }
       case 'connecting':
         return { color: 'yellow', children: 'Connecting' }
+      case 'reconnecting':
+        return { color: 'orange', children: 'Reconnecting' }
+      case 'unhealthy':
+        return { color: 'pink', children: 'Unhealthy' }
       case 'disconnected':
         return { color: 'red', children: 'Disconnected' }
     }
   }
 
-  const rows = state.servers.map((server) => (
-    <Table.Tr key={server.id}>
+  const rows = state.servers.map((server) => {
+    const isLive = isServerConnected(server) || server.status === 'reconnecting'
+    const toolsChanged = (server.toolChanges?.added.length ?? 0) + (server.toolChanges?.removed.length ?? 0) > 0
+
+    return <Table.Tr key={server.id}>
       <Table.Td>
         <Text fw={500}>{server.name}</Text>
       </Table.Td>
-      <Table.Td>{server.domain}</Table.Td>
+      <Table.Td>
+        {server.transport === 'stdio'
+          ? <Text size="sm" ff="monospace">{joinShellWords([server.command ?? '', ...(server.args ?? [])])}</Text>
+          : getServerUrl(server)}
+      </Table.Td>
       <Table.Td>
         <Badge {...getStatusBadgeProps(server.status)} />
       </Table.Td>
+      <Table.Td>
+        {isServerConnected(server) || state.health[server.id]
+          ? <HealthSparkline samples={state.health[server.id] ?? []} />
+          : <Text size="xs" c="dimmed">-</Text>}
+      </Table.Td>
       <Table.Td>
         <Group gap={8}>
-          <Tooltip label={server.status === 'connected' ? 'Disconnect' : 'Connect'}>
+          <Tooltip label={isLive ? 'Disconnect' : 'Connect'}>
             <ActionIcon
               variant="light"
-              color={server.status === 'connected' ? 'red' : 'green'}
+              color={isLive ? 'red' : 'green'}
               onClick={() => handleToggleConnection(server)}
               loading={server.status === 'connecting'}
             >
-              {server.status === 'connected' ? <IconPlugOff size={16} /> : <IconPower size={16} />}
+              {isLive ? <IconPlugOff size={16} /> : <IconPower size={16} />}
+            </ActionIcon>
+          </Tooltip>
+          <Tooltip label={toolsChanged ? 'View Tools (list changed)' : 'View Tools'}>
+            <Indicator disabled={!toolsChanged} color="green" size={8} processing>
+              <ActionIcon
+                variant="light"
+                color="blue"
+                onClick={() => handleViewTools(server)}
+              >
+                <IconEye size={16} />
+              </ActionIcon>
+            </Indicator>
+          </Tooltip>
+          <Tooltip label="Details">
+            <ActionIcon
+              variant="light"
+              color="gray"
+              onClick={() => onOpenDetails(server)}
+            >
+              <IconInfoCircle size={16} />
             </ActionIcon>
           </Tooltip>
-          <Tooltip label="View Tools">
+          <Tooltip label="Logs">
             <ActionIcon
               variant="light"
-              color="blue"
-              onClick={() => handleViewTools(server)}
+              color="gray"
+              onClick={() => onOpenLogsModal(server)}
             >
-              <IconEye size={16} />
+              <IconTerminal2 size={16} />
+            </ActionIcon>
+          </Tooltip>
+          <Tooltip label="Protocol Inspector">
+            <ActionIcon
+              variant="light"
+              color="gray"
+              onClick={() => onOpenInspectorModal(server)}
+            >
+              <IconArrowsExchange size={16} />
             </ActionIcon>
           </Tooltip>
           <Tooltip label="Settings">
-            <ActionIcon variant="light" color="gray">
+            <ActionIcon
+              variant="light"
+              color="gray"
+              onClick={() => onOpenSettingsModal(server)}
+            >
               <IconSettings size={16} />
             </ActionIcon>
           </Tooltip>
         </Group>
       </Table.Td>
     </Table.Tr>
-  ))
+  })
 
   return <>
     <Stack gap="md">
       <Group justify="space-between">
         <Text size="xl" fw={600}>MCP Servers</Text>
-        <Button
-          leftSection={<IconPlus size={16} />}
-          onClick={onOpenAddModal}
-        >
-          Add Server
-        </Button>
+        <Group gap="sm">
+          <Button
+            variant="light"
+            leftSection={<IconHistory size={16} />}
+            onClick={onOpenHistoryModal}
+          >
+            History
+          </Button>
+          <FileButton onChange={handleImport} accept="application/json">
+            {(props) => (
+              <Button variant="light" leftSection={<IconUpload size={16} />} {...props}>
+                Import
+              </Button>
+            )}
+          </FileButton>
+          <Button
+            variant="light"
+            leftSection={<IconDownload size={16} />}
+            onClick={handleExport}
+            disabled={state.servers.length === 0}
+          >
+            Export
+          </Button>
+          <Button
+            leftSection={<IconPlus size={16} />}
+            onClick={onOpenAddModal}
+          >
+            Add Server
+          </Button>
+        </Group>
       </Group>
 
       <Paper withBorder>
@@ -141,8 +271,9 @@ export function MCPServerTable({ onOpenAddModal, onOpenToolsModal }: MCPServerTa
           <Table.Thead>
             <Table.Tr>
               <Table.Th>Name</Table.Th>
-              <Table.Th>Domain</Table.Th>
+              <Table.Th>Endpoint</Table.Th>
               <Table.Th>Status</Table.Th>
+              <Table.Th>Health</Table.Th>
               <Table.Th>Actions</Table.Th>
             </Table.Tr>
           </Table.Thead>
@@ -0,0 +1,39 @@
+import { Paper, Stack, Group, Text, ActionIcon, Tooltip } from '@mantine/core'
+import { IconBrain, IconTrash } from '@tabler/icons-react'
+import type { ModelContext } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { ContentBlockView } from './ContentBlockView'
+import { JsonTree } from './JsonTree'
+
+/**
+ * The context snapshot an MCP App pushed for the next model turn
+ */
+export function ModelContextView({ context }: { context: ModelContext }) {
+  const { actions } = useMCP()
+
+  return (
+    <Paper withBorder p="sm">
+      <Stack gap="xs">
+        <Group justify="space-between" wrap="nowrap">
+          <Group gap={6} wrap="nowrap">
+            <IconBrain size={14} />
+            <Text size="xs" fw={500}>Model context</Text>
+            <Text size="xs" c="dimmed">{new Date(context.updatedAt).toLocaleTimeString()}</Text>
+          </Group>
+          <Tooltip label="Forget this context">
+            <ActionIcon size="sm" variant="subtle" color="gray" onClick={() => actions.removeModelContext(context.id)}>
+              <IconTrash size={14} />
+            </ActionIcon>
+          </Tooltip>
+        </Group>
+        {context.content?.map((block, index) => (
+          <ContentBlockView key={index} content={block} />
+        ))}
+        {context.structuredContent && <JsonTree value={context.structuredContent} />}
+        {!context.content?.length && !context.structuredContent && (
+          <Text size="xs" c="dimmed">The app cleared its context</Text>
+        )}
+      </Stack>
+    </Paper>
+  )
+}
@@ -0,0 +1,41 @@
+import { useEffect } from 'react'
+import { Center, Stack, Text, Loader } from '@mantine/core'
+import { OAUTH_CALLBACK_MESSAGE, type OAuthCallbackMessage } from '../services/oauthProvider'
+
+/**
+ * Redirect target of the authorization server. Runs inside the popup opened
+ * by the dashboard and hands the authorization code back to it.
+ */
+export function OAuthCallback() {
+  const error = window.opener ? null : 'This page must be opened from the MCPOS dashboard'
+
+  useEffect(() => {
+    if (!window.opener) return
+
+    const params = new URLSearchParams(window.location.search)
+    const message: OAuthCallbackMessage = {
+      type: OAUTH_CALLBACK_MESSAGE,
+      code: params.get('code') ?? undefined,
+      state: params.get('state') ?? undefined,
+      error: params.get('error_description') ?? params.get('error') ?? undefined
+    }
+
+    window.opener.postMessage(message, window.location.origin)
+    window.close()
+  }, [])
+
+  return (
+    <Center h="100vh">
+      <Stack align="center" gap="sm">
+        {error ? (
+          <Text c="red">{error}</Text>
+        ) : (
+          <>
+            <Loader size="sm" />
+            <Text size="sm" c="dimmed">Completing sign in...</Text>
+          </>
+        )}
+      </Stack>
+    </Center>
+  )
+}
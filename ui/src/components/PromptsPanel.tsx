@@ -0,0 +1,226 @@
+import type { Prompt, PromptArgument, GetPromptResult } from '@modelcontextprotocol/sdk/types.js'
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Stack,
+  Text,
+  Card,
+  Button,
+  Group,
+  Badge,
+  Loader,
+  Alert,
+  Paper,
+  ActionIcon,
+  Divider
+} from '@mantine/core'
+import { notifications } from '@mantine/notifications'
+import { IconMessage, IconRefresh, IconInfoCircle } from '@tabler/icons-react'
+import type { MCPServer } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { isServerConnected } from '../services/serverRegistry'
+import { mcpClient } from '../services/mcpClient'
+import { ContentBlockView } from './ContentBlockView'
+import { CompletionInput } from './CompletionInput'
+
+interface PromptsPanelProps {
+  server: MCPServer
+}
+
+interface PromptArgumentInputProps {
+  server: MCPServer
+  prompt: Prompt
+  argument: PromptArgument
+  values: Record<string, string>
+  onChange: (value: string) => void
+}
+
+// Argument field with suggestions from completion/complete
+function PromptArgumentInput({ server, prompt, argument, values, onChange }: PromptArgumentInputProps) {
+  const { actions } = useMCP()
+
+  return (
+    <CompletionInput
+      size="xs"
+      label={argument.name}
+      description={argument.description}
+      withAsterisk={argument.required}
+      value={values[argument.name] ?? ''}
+      onChange={onChange}
+      complete={(value) => actions.complete(
+        server.id,
+        { type: 'ref/prompt', name: prompt.name },
+        { name: argument.name, value },
+        values
+      )}
+    />
+  )
+}
+
+export function PromptsPanel({ server }: PromptsPanelProps) {
+  const { state, actions } = useMCP()
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedPrompt, setSelectedPrompt] = useState<Prompt | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [result, setResult] = useState<GetPromptResult | null>(null)
+  const [running, setRunning] = useState(false)
+
+  const connected = isServerConnected(server)
+  const listChangedAt = state.listChanges[server.id]?.prompts
+
+  // The client directly, as the context's actions change on every render
+  const loadPrompts = useCallback(() => {
+    mcpClient.listPrompts(server.id)
+      .then(prompts => {
+        setPrompts(prompts)
+        setError(null)
+      })
+      .catch(error => setError(`Failed to list prompts: ${error.message}`))
+      .finally(() => setLoading(false))
+  }, [server.id])
+
+  // Refetch whenever the server reports a list_changed
+  useEffect(() => {
+    if (connected) {
+      loadPrompts()
+    }
+  }, [loadPrompts, connected, listChangedAt])
+
+  const handleSelect = (prompt: Prompt) => {
+    setSelectedPrompt(prompt)
+    setValues({})
+    setResult(null)
+  }
+
+  const handleGetPrompt = async () => {
+    if (!selectedPrompt) return
+
+    const missing = (selectedPrompt.arguments ?? [])
+      .filter(argument => argument.required && !values[argument.name])
+      .map(argument => argument.name)
+    if (missing.length > 0) {
+      notifications.show({
+        title: 'Missing Arguments',
+        message: `Required: ${missing.join(', ')}`,
+        color: 'orange'
+      })
+      return
+    }
+
+    setRunning(true)
+    try {
+      setResult(await actions.getPrompt(server.id, selectedPrompt.name, values))
+    } catch (error) {
+      notifications.show({
+        title: 'Prompt Failed',
+        message: `Failed to get ${selectedPrompt.name}: ${(error as Error).message}`,
+        color: 'red'
+      })
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  if (!connected) {
+    return (
+      <Alert icon={<IconInfoCircle size={16} />} color="red">
+        Server not connected
+      </Alert>
+    )
+  }
+
+  if (loading) {
+    return (
+      <Group justify="center" py="xl">
+        <Loader size="sm" />
+        <Text size="sm" c="dimmed">Loading prompts...</Text>
+      </Group>
+    )
+  }
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Text size="sm" c="dimmed">{prompts.length} prompts</Text>
+        <ActionIcon variant="subtle" onClick={loadPrompts} title="Refresh">
+          <IconRefresh size={16} />
+        </ActionIcon>
+      </Group>
+
+      {error && (
+        <Alert icon={<IconInfoCircle size={16} />} color="red">
+          {error}
+        </Alert>
+      )}
+
+      {!error && prompts.length === 0 && (
+        <Text ta="center" c="dimmed" py="xl">
+          No prompts available
+        </Text>
+      )}
+
+      {prompts.map((prompt) => {
+        const selected = selectedPrompt?.name === prompt.name
+        return (
+          <Card key={prompt.name} withBorder p="md">
+            <Stack gap="xs">
+              <Group justify="space-between" align="flex-start" wrap="nowrap">
+                <Stack gap={4} style={{ flex: 1 }}>
+                  <Group gap="sm">
+                    <IconMessage size={16} />
+                    <Text fw={500}>{prompt.title ?? prompt.name}</Text>
+                    <Badge size="sm" variant="light" color="teal">Prompt</Badge>
+                  </Group>
+                  {prompt.description && (
+                    <Text size="sm" c="dimmed">
+                      {prompt.description}
+                    </Text>
+                  )}
+                </Stack>
+                {selected ? (
+                  <Button size="sm" loading={running} onClick={handleGetPrompt}>
+                    Get
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="light" onClick={() => handleSelect(prompt)}>
+                    Select
+                  </Button>
+                )}
+              </Group>
+              {selected && (prompt.arguments ?? []).map((argument) => (
+                <PromptArgumentInput
+                  key={argument.name}
+                  server={server}
+                  prompt={prompt}
+                  argument={argument}
+                  values={values}
+                  onChange={(value) => setValues(current => ({ ...current, [argument.name]: value }))}
+                />
+              ))}
+            </Stack>
+          </Card>
+        )
+      })}
+
+      {result && (
+        <Paper withBorder p="md">
+          <Stack gap="sm">
+            {result.description && (
+              <Text size="sm" c="dimmed">{result.description}</Text>
+            )}
+            {result.messages.map((message, index) => (
+              <Stack key={index} gap={4}>
+                {index > 0 && <Divider />}
+                <Badge size="sm" variant="light" color={message.role === 'user' ? 'blue' : 'gray'}>
+                  {message.role}
+                </Badge>
+                <ContentBlockView content={message.content} />
+              </Stack>
+            ))}
+          </Stack>
+        </Paper>
+      )}
+    </Stack>
+  )
+}
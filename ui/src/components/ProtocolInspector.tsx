@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Select,
+  SegmentedControl,
+  ScrollArea,
+  Paper,
+  UnstyledButton,
+  Collapse,
+  SimpleGrid
+} from '@mantine/core'
+import { IconArrowUpRight, IconArrowDownLeft, IconFileExport, IconTrash } from '@tabler/icons-react'
+import type { MCPServer, TrafficEntry } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { pairTraffic, getDuration, toHarTrace, type TrafficExchange } from '../services/protocolTrace'
+import { downloadJson } from '../utils/fileUtils'
+import { JsonTree } from './JsonTree'
+
+interface ProtocolInspectorModalProps {
+  opened: boolean
+  onClose: () => void
+  server: MCPServer | null
+}
+
+type ChannelFilter = 'all' | TrafficEntry['channel']
+
+const KIND_COLORS: Record<TrafficExchange['kind'], string> = {
+  request: 'blue',
+  notification: 'gray',
+  response: 'yellow'
+}
+
+function MessageView({ label, entry }: { label: string; entry: TrafficEntry }) {
+  return (
+    <Stack gap={4}>
+      <Text size="xs" c="dimmed">
+        {label} · {new Date(entry.timestamp).toLocaleTimeString()}
+      </Text>
+      <Paper withBorder p="xs">
+        <JsonTree value={entry.message} />
+      </Paper>
+    </Stack>
+  )
+}
+
+function ExchangeRow({ exchange }: { exchange: TrafficExchange }) {
+  const [expanded, setExpanded] = useState(false)
+  const { start, response } = exchange
+  const duration = getDuration(exchange)
+  const failed = response && 'error' in response.message
+
+  return (
+    <Paper withBorder p={6}>
+      <UnstyledButton w="100%" onClick={() => setExpanded(current => !current)}>
+        <Group gap="xs" wrap="nowrap">
+          {start.direction === 'outgoing'
+            ? <IconArrowUpRight size={14} color="var(--mantine-color-blue-6)" />
+            : <IconArrowDownLeft size={14} color="var(--mantine-color-green-6)" />}
+          <Text size="xs" ff="monospace" c="dimmed" style={{ flexShrink: 0 }}>
+            {new Date(start.timestamp).toLocaleTimeString([], { hour12: false })}
+          </Text>
+          <Text size="sm" ff="monospace" fw={500} truncate style={{ flex: 1 }}>
+            {exchange.method}
+          </Text>
+          {start.channel === 'app' && (
+            <Badge size="xs" variant="outline" color="grape">app</Badge>
+          )}
+          <Badge size="xs" variant="light" color={KIND_COLORS[exchange.kind]}>{exchange.kind}</Badge>
+          {failed && <Badge size="xs" color="red">error</Badge>}
+          {exchange.kind === 'request' && (
+            <Text size="xs" c="dimmed" w={60} ta="right" style={{ flexShrink: 0 }}>
+              {duration === undefined ? 'pending' : `${duration}ms`}
+            </Text>
+          )}
+        </Group>
+      </UnstyledButton>
+      <Collapse in={expanded}>
+        {expanded && (
+          <SimpleGrid cols={response ? 2 : 1} mt="xs">
+            <MessageView label={start.direction === 'outgoing' ? 'Sent' : 'Received'} entry={start} />
+            {response && <MessageView label="Response" entry={response} />}
+          </SimpleGrid>
+        )}
+      </Collapse>
+    </Paper>
+  )
+}
+
+/**
+ * JSON-RPC messages exchanged with one server and its MCP Apps, with requests
+ * paired to their responses
+ */
+export function ProtocolInspectorModal({ opened, onClose, server }: ProtocolInspectorModalProps) {
+  const { state, actions } = useMCP()
+  const [method, setMethod] = useState<string | null>(null)
+  const [channel, setChannel] = useState<ChannelFilter>('all')
+
+  const exchanges = pairTraffic(state.traffic.filter(entry => entry.serverId === server?.id))
+  const methods = [...new Set(exchanges.map(exchange => exchange.method))].sort()
+  const shown = exchanges.filter(exchange =>
+    (!method || exchange.method === method) &&
+    (channel === 'all' || exchange.start.channel === channel)
+  )
+
+  const handleExport = () => {
+    if (!server) return
+    downloadJson(`${server.name}-trace.har`, toHarTrace(server, shown))
+  }
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={server ? `Protocol Inspector - ${server.name}` : 'Protocol Inspector'}
+      size="xl"
+      centered
+    >
+      <Stack gap="sm">
+        <Group justify="space-between" align="flex-end">
+          <Group gap="sm" align="flex-end">
+            <Select
+              size="xs"
+              label="Method"
+              placeholder="All methods"
+              data={methods}
+              value={method}
+              onChange={setMethod}
+              searchable
+              clearable
+              w={240}
+            />
+            <SegmentedControl
+              size="xs"
+              value={channel}
+              onChange={(value) => setChannel(value as ChannelFilter)}
+              data={[
+                { value: 'all', label: 'All' },
+                { value: 'server', label: 'Server' },
+                { value: 'app', label: 'Apps' }
+              ]}
+            />
+          </Group>
+          <Group gap="xs">
+            <Button
+              size="xs"
+              variant="light"
+              leftSection={<IconFileExport size={14} />}
+              disabled={shown.length === 0}
+              onClick={handleExport}
+            >
+              Export HAR
+            </Button>
+            <Button
+              size="xs"
+              variant="light"
+              color="red"
+              leftSection={<IconTrash size={14} />}
+              onClick={() => server && actions.clearTraffic(server.id)}
+            >
+              Clear
+            </Button>
+          </Group>
+        </Group>
+
+        <Text size="xs" c="dimmed">
+          {shown.length} of {exchanges.length} exchanges
+        </Text>
+
+        <ScrollArea h={450}>
+          {shown.length === 0 ? (
+            <Text size="sm" c="dimmed" ta="center" py="xl">
+              No messages recorded
+            </Text>
+          ) : (
+            <Stack gap={4}>
+              {shown.map((exchange) => (
+                <ExchangeRow key={exchange.id} exchange={exchange} />
+              ))}
+            </Stack>
+          )}
+        </ScrollArea>
+      </Stack>
+    </Modal>
+  )
+}
@@ -0,0 +1,346 @@
+import type { Resource, ResourceTemplate, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js'
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  Stack,
+  Text,
+  Card,
+  Button,
+  Group,
+  Badge,
+  Loader,
+  Alert,
+  Code,
+  Image,
+  Paper,
+  ScrollArea,
+  Switch,
+  ActionIcon,
+  Divider
+} from '@mantine/core'
+import { notifications } from '@mantine/notifications'
+import { IconFile, IconTemplate, IconRefresh, IconDownload, IconInfoCircle } from '@tabler/icons-react'
+import type { MCPServer } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { isServerConnected } from '../services/serverRegistry'
+import { mcpClient } from '../services/mcpClient'
+import { downloadBase64 } from '../utils/fileUtils'
+import { CompletionInput } from './CompletionInput'
+
+interface ResourcesPanelProps {
+  server: MCPServer
+}
+
+type ResourceContents = ReadResourceResult['contents'][number]
+
+const isJsonMimeType = (mimeType?: string) =>
+  mimeType === 'application/json' || mimeType?.endsWith('+json') === true
+
+function formatText(text: string, mimeType?: string): string {
+  if (!isJsonMimeType(mimeType)) return text
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2)
+  } catch {
+    return text
+  }
+}
+
+// Renders a single entry of a resources/read result by its content type
+export function ResourceContentView({ content }: { content: ResourceContents }) {
+  const mimeType = content.mimeType
+
+  if ('text' in content) {
+    return (
+      <ScrollArea.Autosize mah={300}>
+        <Code block>{formatText(content.text, mimeType)}</Code>
+      </ScrollArea.Autosize>
+    )
+  }
+
+  if (mimeType?.startsWith('image/')) {
+    return (
+      <Image
+        src={`data:${mimeType};base64,${content.blob}`}
+        alt={content.uri}
+        fit="contain"
+        mah={300}
+      />
+    )
+  }
+
+  // Base64 encodes 3 bytes in every 4 characters
+  const size = Math.floor(content.blob.length * 3 / 4)
+  const fileName = content.uri.split('/').pop() || 'resource'
+  return (
+    <Group justify="space-between">
+      <Text size="sm" c="dimmed">
+        Binary content, {size} bytes{mimeType ? ` (${mimeType})` : ''}
+      </Text>
+      <Button
+        size="xs"
+        variant="light"
+        leftSection={<IconDownload size={14} />}
+        onClick={() => downloadBase64(fileName, content.blob, mimeType)}
+      >
+        Download
+      </Button>
+    </Group>
+  )
+}
+
+export function ResourcesPanel({ server }: ResourcesPanelProps) {
+  const { state, actions } = useMCP()
+  const [resources, setResources] = useState<Resource[]>([])
+  const [templates, setTemplates] = useState<ResourceTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Variable values typed into each template's form, by URI template
+  const [templateValues, setTemplateValues] = useState<Record<string, Record<string, string>>>({})
+  const [selectedUri, setSelectedUri] = useState<string | null>(null)
+  const [contents, setContents] = useState<ResourceContents[]>([])
+  const [reading, setReading] = useState(false)
+  const [subscribedUri, setSubscribedUri] = useState<string | null>(null)
+  const subscribedUriRef = useRef<string | null>(null)
+
+  const connected = isServerConnected(server)
+  const listChangedAt = state.listChanges[server.id]?.resources
+  const canSubscribe = connected && actions.canSubscribe(server.id)
+  const updatedAt = selectedUri ? state.resourceUpdates[server.id]?.[selectedUri] : undefined
+
+  // The effects below use the client directly, as the context's actions
+  // change on every render
+  const loadResources = useCallback(() => {
+    Promise.all([mcpClient.listResources(server.id), mcpClient.listResourceTemplates(server.id)])
+      .then(([resources, templates]) => {
+        setResources(resources)
+        setTemplates(templates)
+        setError(null)
+      })
+      .catch(error => setError(`Failed to list resources: ${error.message}`))
+      .finally(() => setLoading(false))
+  }, [server.id])
+
+  // Refetch whenever the server reports a list_changed
+  useEffect(() => {
+    if (connected) {
+      loadResources()
+    }
+  }, [loadResources, connected, listChangedAt])
+
+  // Re-read the displayed resource whenever the server reports a change
+  useEffect(() => {
+    if (!selectedUri || !updatedAt) return
+
+    mcpClient.readResource(server.id, selectedUri)
+      .then(result => setContents(result.contents))
+      .catch(error => console.error('Failed to refresh resource:', error))
+  }, [server.id, selectedUri, updatedAt])
+
+  // Subscriptions only live as long as the panel
+  useEffect(() => {
+    return () => {
+      if (subscribedUriRef.current) {
+        mcpClient.unsubscribeResource(server.id, subscribedUriRef.current).catch(() => {})
+      }
+    }
+  }, [server.id])
+
+  const setSubscription = async (uri: string | null) => {
+    const previous = subscribedUriRef.current
+    subscribedUriRef.current = uri
+    setSubscribedUri(uri)
+
+    try {
+      if (previous) {
+        await actions.unsubscribeResource(server.id, previous)
+      }
+      if (uri) {
+        await actions.subscribeResource(server.id, uri)
+      }
+    } catch (error) {
+      notifications.show({
+        title: 'Subscription Failed',
+        message: (error as Error).message,
+        color: 'red'
+      })
+    }
+  }
+
+  const handleRead = async (uri: string) => {
+    if (subscribedUri && subscribedUri !== uri) {
+      await setSubscription(null)
+    }
+
+    setSelectedUri(uri)
+    setContents([])
+    setReading(true)
+    try {
+      const result = await actions.readResource(server.id, uri)
+      setContents(result.contents)
+    } catch (error) {
+      notifications.show({
+        title: 'Read Failed',
+        message: `Failed to read ${uri}: ${(error as Error).message}`,
+        color: 'red'
+      })
+      setSelectedUri(null)
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleReadTemplate = (template: ResourceTemplate) => {
+    const values = templateValues[template.uriTemplate] ?? {}
+    handleRead(new UriTemplate(template.uriTemplate).expand(values))
+  }
+
+  const setTemplateValue = (uriTemplate: string, name: string, value: string) => {
+    setTemplateValues(current => ({
+      ...current,
+      [uriTemplate]: { ...current[uriTemplate], [name]: value }
+    }))
+  }
+
+  if (!connected) {
+    return (
+      <Alert icon={<IconInfoCircle size={16} />} color="red">
+        Server not connected
+      </Alert>
+    )
+  }
+
+  if (loading) {
+    return (
+      <Group justify="center" py="xl">
+        <Loader size="sm" />
+        <Text size="sm" c="dimmed">Loading resources...</Text>
+      </Group>
+    )
+  }
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Text size="sm" c="dimmed">
+          {resources.length} resources, {templates.length} templates
+        </Text>
+        <ActionIcon variant="subtle" onClick={loadResources} title="Refresh">
+          <IconRefresh size={16} />
+        </ActionIcon>
+      </Group>
+
+      {error && (
+        <Alert icon={<IconInfoCircle size={16} />} color="red">
+          {error}
+        </Alert>
+      )}
+
+      {!error && resources.length === 0 && templates.length === 0 && (
+        <Text ta="center" c="dimmed" py="xl">
+          No resources available
+        </Text>
+      )}
+
+      {resources.map((resource) => (
+        <Card key={resource.uri} withBorder p="md">
+          <Group justify="space-between" align="flex-start" wrap="nowrap">
+            <Stack gap={4} style={{ flex: 1, minWidth: 0 }}>
+              <Group gap="sm">
+                <IconFile size={16} />
+                <Text fw={500}>{resource.title ?? resource.name}</Text>
+                {resource.mimeType && <Badge size="sm" variant="light">{resource.mimeType}</Badge>}
+              </Group>
+              <Text size="xs" ff="monospace" c="dimmed" truncate>{resource.uri}</Text>
+              {resource.description && (
+                <Text size="sm" c="dimmed">
+                  {resource.description}
+                </Text>
+              )}
+            </Stack>
+            <Button size="sm" onClick={() => handleRead(resource.uri)}>
+              Read
+            </Button>
+          </Group>
+        </Card>
+      ))}
+
+      {templates.map((template) => {
+        const variables = new UriTemplate(template.uriTemplate).variableNames
+        return (
+          <Card key={template.uriTemplate} withBorder p="md">
+            <Stack gap="xs">
+              <Group justify="space-between" align="flex-start" wrap="nowrap">
+                <Stack gap={4} style={{ flex: 1, minWidth: 0 }}>
+                  <Group gap="sm">
+                    <IconTemplate size={16} />
+                    <Text fw={500}>{template.title ?? template.name}</Text>
+                    <Badge size="sm" variant="light" color="grape">Template</Badge>
+                  </Group>
+                  <Text size="xs" ff="monospace" c="dimmed" truncate>{template.uriTemplate}</Text>
+                  {template.description && (
+                    <Text size="sm" c="dimmed">
+                      {template.description}
+                    </Text>
+                  )}
+                </Stack>
+                <Button size="sm" onClick={() => handleReadTemplate(template)}>
+                  Read
+                </Button>
+              </Group>
+              {variables.map((name) => (
+                <CompletionInput
+                  key={name}
+                  size="xs"
+                  label={name}
+                  value={templateValues[template.uriTemplate]?.[name] ?? ''}
+                  onChange={(value) => setTemplateValue(template.uriTemplate, name, value)}
+                  complete={(value) => actions.complete(
+                    server.id,
+                    { type: 'ref/resource', uri: template.uriTemplate },
+                    { name, value },
+                    templateValues[template.uriTemplate]
+                  )}
+                />
+              ))}
+            </Stack>
+          </Card>
+        )
+      })}
+
+      {selectedUri && (
+        <Paper withBorder p="md">
+          <Stack gap="sm">
+            <Group justify="space-between" wrap="nowrap">
+              <Text size="sm" ff="monospace" truncate>{selectedUri}</Text>
+              {canSubscribe && (
+                <Switch
+                  size="xs"
+                  label="Live"
+                  checked={subscribedUri === selectedUri}
+                  onChange={(event) => setSubscription(event.currentTarget.checked ? selectedUri : null)}
+                />
+              )}
+            </Group>
+            {updatedAt && (
+              <Text size="xs" c="dimmed">
+                Updated {new Date(updatedAt).toLocaleTimeString()}
+              </Text>
+            )}
+            <Divider />
+            {reading ? (
+              <Group justify="center" py="md">
+                <Loader size="sm" />
+              </Group>
+            ) : contents.length === 0 ? (
+              <Text size="sm" c="dimmed">Empty resource</Text>
+            ) : (
+              contents.map((content, index) => (
+                <ResourceContentView key={`${content.uri}-${index}`} content={content} />
+              ))
+            )}
+          </Stack>
+        </Paper>
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,233 @@
+import type { CreateMessageResult, SamplingMessage } from '@modelcontextprotocol/sdk/types.js'
+import { useState } from 'react'
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Select,
+  Textarea,
+  TextInput,
+  Paper,
+  Divider,
+  Alert
+} from '@mantine/core'
+import { IconSparkles, IconCheck, IconX, IconAlertCircle } from '@tabler/icons-react'
+import { useMCP } from '../contexts/MCPContext'
+import { useSampling, type SamplingRequest } from '../contexts/SamplingContext'
+import {
+  getModelProviders,
+  getModelProvider,
+  stubModelProvider,
+  selectModelContexts,
+  withModelContext
+} from '../services/modelProviders'
+import { ContentBlockView } from './ContentBlockView'
+import { JsonTree } from './JsonTree'
+import { ModelContextView } from './ModelContextView'
+
+function MessageView({ message }: { message: SamplingMessage }) {
+  const blocks = Array.isArray(message.content) ? message.content : [message.content]
+
+  return (
+    <Paper withBorder p="sm">
+      <Stack gap="xs">
+        <Badge size="sm" variant="light" color={message.role === 'user' ? 'blue' : 'grape'}>
+          {message.role}
+        </Badge>
+        {blocks.map((block, index) =>
+          block.type === 'text' || block.type === 'image' || block.type === 'audio'
+            ? <ContentBlockView key={index} content={block} />
+            : <JsonTree key={index} value={block} />
+        )}
+      </Stack>
+    </Paper>
+  )
+}
+
+function RequestSummary({ params }: { params: SamplingRequest['params'] }) {
+  const { modelPreferences } = params
+  const hints = modelPreferences?.hints?.map(hint => hint.name).filter(Boolean) ?? []
+  const priorities = (['costPriority', 'speedPriority', 'intelligencePriority'] as const)
+    .filter(priority => modelPreferences?.[priority] !== undefined)
+
+  return (
+    <Group gap="xs">
+      <Badge variant="outline">max {params.maxTokens} tokens</Badge>
+      {params.temperature !== undefined && <Badge variant="outline">temperature {params.temperature}</Badge>}
+      {params.includeContext && params.includeContext !== 'none' && (
+        <Badge variant="outline" color="yellow">context: {params.includeContext}</Badge>
+      )}
+      {params.stopSequences?.map(sequence => (
+        <Badge key={sequence} variant="outline" color="gray">stop: {JSON.stringify(sequence)}</Badge>
+      ))}
+      {hints.map(hint => <Badge key={hint} variant="light">{hint}</Badge>)}
+      {priorities.map(priority => (
+        <Badge key={priority} variant="light" color="gray">
+          {priority.replace('Priority', '')} {modelPreferences![priority]}
+        </Badge>
+      ))}
+    </Group>
+  )
+}
+
+// Remounted per request, so every request starts from an empty draft
+function SamplingRequestView({ request }: { request: SamplingRequest }) {
+  const { state: mcpState } = useMCP()
+  const { actions } = useSampling()
+  const [providerId, setProviderId] = useState(stubModelProvider.id)
+  const [draft, setDraft] = useState<CreateMessageResult | null>(null)
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { params } = request
+  // The apps' state informs the response when the server asks for context
+  const modelContexts = selectModelContexts(params, request.serverId, Object.values(mcpState.modelContexts))
+
+  const handleGenerate = async () => {
+    const provider = getModelProvider(providerId)
+    if (!provider) return
+
+    setGenerating(true)
+    setError(null)
+    try {
+      setDraft(await provider.createMessage(withModelContext(params, modelContexts)))
+    } catch (error) {
+      setError((error as Error).message)
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const updateText = (text: string) => {
+    setDraft(current => current && { ...current, content: { type: 'text', text } })
+  }
+
+  return (
+    <Stack gap="md">
+      <RequestSummary params={params} />
+
+      {params.systemPrompt && (
+        <Paper withBorder p="sm" bg="var(--mantine-color-default-hover)">
+          <Text size="xs" c="dimmed" mb={4}>System prompt</Text>
+          <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>{params.systemPrompt}</Text>
+        </Paper>
+      )}
+
+      <Stack gap="xs">
+        {params.messages.map((message, index) => (
+          <MessageView key={index} message={message} />
+        ))}
+      </Stack>
+
+      {modelContexts.length > 0 && (
+        <Stack gap="xs">
+          <Divider label="App context" labelPosition="left" />
+          {modelContexts.map(context => (
+            <ModelContextView key={context.id} context={context} />
+          ))}
+        </Stack>
+      )}
+
+      <Divider label="Response" labelPosition="left" />
+
+      <Group align="flex-end">
+        <Select
+          label="Model provider"
+          data={getModelProviders().map(provider => ({ value: provider.id, label: provider.name }))}
+          value={providerId}
+          onChange={(value) => value && setProviderId(value)}
+          allowDeselect={false}
+          style={{ flex: 1 }}
+        />
+        <Button
+          variant="light"
+          leftSection={<IconSparkles size={16} />}
+          loading={generating}
+          onClick={handleGenerate}
+        >
+          {draft ? 'Regenerate' : 'Generate'}
+        </Button>
+      </Group>
+
+      {error && (
+        <Alert icon={<IconAlertCircle size={16} />} color="red">
+          {error}
+        </Alert>
+      )}
+
+      {draft && (
+        <Stack gap="xs">
+          {draft.content.type === 'text' ? (
+            <Textarea
+              label="Message"
+              description="Edit the response before it is sent to the server"
+              autosize
+              minRows={3}
+              maxRows={12}
+              value={draft.content.text}
+              onChange={(event) => updateText(event.currentTarget.value)}
+            />
+          ) : (
+            <ContentBlockView content={draft.content} />
+          )}
+          <Group grow>
+            <TextInput
+              label="Model"
+              value={draft.model}
+              onChange={(event) => {
+                const model = event.currentTarget.value
+                setDraft(current => current && { ...current, model })
+              }}
+            />
+            <TextInput label="Stop reason" value={draft.stopReason ?? ''} readOnly />
+          </Group>
+        </Stack>
+      )}
+
+      <Group justify="flex-end">
+        <Button variant="light" color="red" leftSection={<IconX size={16} />} onClick={() => actions.reject(request.id)}>
+          Reject
+        </Button>
+        <Button
+          leftSection={<IconCheck size={16} />}
+          disabled={!draft}
+          onClick={() => draft && actions.approve(request.id, draft)}
+        >
+          Approve & Send
+        </Button>
+      </Group>
+    </Stack>
+  )
+}
+
+/**
+ * Asks the user about sampling requests from servers, one at a time
+ */
+export function SamplingDialog() {
+  const { state: mcpState } = useMCP()
+  const { state, actions } = useSampling()
+  const request = state.requests[0]
+  const server = request && mcpState.servers.find(server => server.id === request.serverId)
+
+  return (
+    <Modal
+      opened={!!request}
+      onClose={() => request && actions.reject(request.id)}
+      title={
+        <Group gap="xs">
+          <Text fw={500}>Sampling request from {server?.name ?? 'a server'}</Text>
+          {state.requests.length > 1 && (
+            <Badge size="sm" variant="light">{state.requests.length - 1} more waiting</Badge>
+          )}
+        </Group>
+      }
+      size="lg"
+      centered
+      closeOnClickOutside={false}
+    >
+      {request && <SamplingRequestView key={request.id} request={request} />}
+    </Modal>
+  )
+}
@@ -0,0 +1,451 @@
+import { useState } from 'react'
+import {
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  NumberInput,
+  Select,
+  MultiSelect,
+  Switch,
+  Slider,
+  JsonInput,
+  Fieldset,
+  Button,
+  ActionIcon,
+  Box
+} from '@mantine/core'
+import { IconPlus, IconTrash } from '@tabler/icons-react'
+import {
+  type JsonSchema,
+  type SchemaErrors,
+  resolveSchema,
+  getSchemaType,
+  getDefaultValue,
+  isSliderNumber,
+  followRef,
+  matchVariant
+} from '../utils/jsonSchema'
+import { CompletionInput } from './CompletionInput'
+
+interface SchemaFormProps {
+  schema: JsonSchema
+  value: Record<string, unknown>
+  onChange: (value: Record<string, unknown>) => void
+  errors?: SchemaErrors
+  // Suggestions for top-level text properties, by property name
+  complete?: Record<string, (value: string) => Promise<string[]>>
+}
+
+interface SchemaFieldProps {
+  schema: JsonSchema
+  // Root schema, the target of $ref pointers
+  root: JsonSchema
+  label: string
+  required?: boolean
+  value: unknown
+  onChange: (value: unknown) => void
+  errors: SchemaErrors
+  // JSON pointer of the value, matches the keys of `errors`
+  path: string
+  // Only text fields without a format use it
+  complete?: (value: string) => Promise<string[]>
+  // $refs followed to reach this field, see followRef
+  refs?: ReadonlySet<string>
+}
+
+// <input> types for string formats the browser can help with
+const FORMAT_INPUT_TYPES: Record<string, string> = {
+  'date-time': 'datetime-local',
+  'date': 'date',
+  'time': 'time',
+  'email': 'email',
+  'uri': 'url',
+  'url': 'url'
+}
+
+const escapePointer = (name: string) => name.replace(/~/g, '~0').replace(/\//g, '~1')
+
+/**
+ * ISO timestamp to the local "YYYY-MM-DDTHH:mm" a datetime-local input expects
+ */
+function toDateTimeLocal(value: unknown): string {
+  if (typeof value !== 'string' || !value) return ''
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return ''
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function setProperty(object: unknown, name: string, value: unknown): Record<string, unknown> {
+  const next = { ...(object as Record<string, unknown> | undefined) }
+  if (value === undefined) {
+    delete next[name]
+  } else {
+    next[name] = value
+  }
+  return next
+}
+
+function StringField({ schema, label, required, value, onChange, errors, path, complete }: SchemaFieldProps) {
+  const type = schema.format ? FORMAT_INPUT_TYPES[schema.format] : undefined
+  const isDateTime = schema.format === 'date-time'
+
+  if (complete && !type) {
+    return (
+      <CompletionInput
+        label={schema.title ?? label}
+        description={schema.description}
+        withAsterisk={required}
+        error={errors[path]}
+        value={(value as string | undefined) ?? ''}
+        onChange={(text) => onChange(text || undefined)}
+        complete={complete}
+      />
+    )
+  }
+
+  return (
+    <TextInput
+      type={type}
+      label={schema.title ?? label}
+      description={schema.description}
+      withAsterisk={required}
+      error={errors[path]}
+      value={isDateTime ? toDateTimeLocal(value) : (value as string | undefined) ?? ''}
+      onChange={(event) => {
+        const text = event.currentTarget.value
+        if (!text) {
+          onChange(undefined)
+        } else {
+          // datetime-local has no zone, send an ISO timestamp instead
+          onChange(isDateTime ? new Date(text).toISOString() : text)
+        }
+      }}
+    />
+  )
+}
+
+function NumberField({ schema, label, required, value, onChange, errors, path }: SchemaFieldProps) {
+  const { minimum, maximum } = schema
+  const isInteger = getSchemaType(schema) === 'integer'
+
+  if (isSliderNumber(schema) && minimum !== undefined && maximum !== undefined) {
+    return (
+      <Stack gap={4}>
+        <Text size="sm" fw={500}>
+          {schema.title ?? label} {required && <Text span c="red">*</Text>}
+        </Text>
+        {schema.description && (
+          <Text size="xs" c="dimmed">{schema.description}</Text>
+        )}
+        <Slider
+          min={minimum}
+          max={maximum}
+          step={schema.multipleOf ?? 1}
+          marks={[
+            { value: minimum, label: minimum },
+            { value: maximum, label: maximum }
+          ]}
+          value={typeof value === 'number' ? value : minimum}
+          onChange={onChange}
+        />
+        {errors[path] && <Text size="xs" c="red">{errors[path]}</Text>}
+      </Stack>
+    )
+  }
+
+  return (
+    <NumberInput
+      label={schema.title ?? label}
+      description={schema.description}
+      withAsterisk={required}
+      error={errors[path]}
+      min={minimum}
+      max={maximum}
+      step={schema.multipleOf}
+      allowDecimal={!isInteger}
+      value={typeof value === 'number' ? value : ''}
+      onChange={(number) => onChange(typeof number === 'number' ? number : undefined)}
+    />
+  )
+}
+
+function EnumField({ schema, label, required, value, onChange, errors, path }: SchemaFieldProps) {
+  const options = schema.enum ?? []
+
+  return (
+    <Select
+      label={schema.title ?? label}
+      description={schema.description}
+      withAsterisk={required}
+      error={errors[path]}
+      clearable={!required}
+      data={options.map(String)}
+      value={value === undefined ? null : String(value)}
+      // Map back to the original, possibly non-string, enum value
+      onChange={(selected) => onChange(options.find(option => String(option) === selected))}
+    />
+  )
+}
+
+function ObjectField({ schema, root, label, value, onChange, errors, path, refs }: SchemaFieldProps) {
+  return (
+    <Fieldset legend={schema.title ?? label}>
+      <Stack gap="sm">
+        {schema.description && (
+          <Text size="xs" c="dimmed">{schema.description}</Text>
+        )}
+        {Object.entries(schema.properties ?? {}).map(([name, property]) => (
+          <SchemaField
+            key={name}
+            schema={property}
+            root={root}
+            label={name}
+            required={schema.required?.includes(name)}
+            value={(value as Record<string, unknown> | undefined)?.[name]}
+            onChange={(propertyValue) => onChange(setProperty(value, name, propertyValue))}
+            errors={errors}
+            path={`${path}/${escapePointer(name)}`}
+            refs={refs}
+          />
+        ))}
+        {errors[path] && <Text size="xs" c="red">{errors[path]}</Text>}
+      </Stack>
+    </Fieldset>
+  )
+}
+
+function ArrayField({ schema, root, label, required, value, onChange, errors, path, refs }: SchemaFieldProps) {
+  const items = Array.isArray(value) ? value : []
+  const itemSchema = resolveSchema(schema.items ?? {}, root)
+  const title = schema.title ?? label
+
+  // A set of known values is easier to pick from a list
+  if (itemSchema.enum && schema.uniqueItems) {
+    const options = itemSchema.enum
+    return (
+      <MultiSelect
+        label={title}
+        description={schema.description}
+        withAsterisk={required}
+        error={errors[path]}
+        data={options.map(String)}
+        value={items.map(String)}
+        onChange={(selected) => onChange(selected.map(item => options.find(option => String(option) === item)))}
+      />
+    )
+  }
+
+  const canAdd = schema.maxItems === undefined || items.length < schema.maxItems
+  const canRemove = schema.minItems === undefined || items.length > schema.minItems
+
+  return (
+    <Fieldset legend={required ? `${title} *` : title}>
+      <Stack gap="sm">
+        {schema.description && (
+          <Text size="xs" c="dimmed">{schema.description}</Text>
+        )}
+        {items.map((item, index) => (
+          <Group key={index} align="flex-start" wrap="nowrap" gap="xs">
+            <Box style={{ flex: 1 }}>
+              <SchemaField
+                schema={schema.items ?? {}}
+                root={root}
+                label={`${itemSchema.title ?? label} ${index + 1}`}
+                value={item}
+                onChange={(itemValue) => onChange(items.map((current, i) => (i === index ? itemValue : current)))}
+                errors={errors}
+                path={`${path}/${index}`}
+                refs={refs}
+              />
+            </Box>
+            <ActionIcon
+              variant="light"
+              color="red"
+              mt={4}
+              disabled={!canRemove}
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+            >
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Group>
+        ))}
+        <Group>
+          <Button
+            variant="subtle"
+            size="xs"
+            leftSection={<IconPlus size={14} />}
+            disabled={!canAdd}
+            onClick={() => onChange([...items, getDefaultValue(schema.items ?? {}, root, refs)])}
+          >
+            Add
+          </Button>
+        </Group>
+        {errors[path] && <Text size="xs" c="red">{errors[path]}</Text>}
+      </Stack>
+    </Fieldset>
+  )
+}
+
+// Free-form JSON for schemas the form can't break down (e.g. open objects)
+function JsonField({ schema, label, required, value, onChange, errors, path }: SchemaFieldProps) {
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)))
+  const [parseError, setParseError] = useState<string | null>(null)
+
+  return (
+    <JsonInput
+      label={schema.title ?? label}
+      description={schema.description ?? 'JSON value'}
+      withAsterisk={required}
+      error={parseError ?? errors[path]}
+      autosize
+      minRows={3}
+      formatOnBlur
+      value={text}
+      onChange={(next) => {
+        setText(next)
+        if (!next.trim()) {
+          setParseError(null)
+          onChange(undefined)
+          return
+        }
+        try {
+          onChange(JSON.parse(next))
+          setParseError(null)
+        } catch {
+          setParseError('Invalid JSON')
+        }
+      }}
+    />
+  )
+}
+
+// oneOf/anyOf: pick a branch, then edit the value with that branch's schema
+function VariantField(props: SchemaFieldProps & { variants: JsonSchema[] }) {
+  const { variants, root, label, value, onChange } = props
+  const [selected, setSelected] = useState(() => matchVariant(variants, root, value))
+
+  const resolved = variants.map(variant => resolveSchema(variant, root))
+  const nonNull = resolved.filter(variant => getSchemaType(variant) !== 'null')
+
+  // Optional values (`T | null`) are just T
+  if (nonNull.length === 1) {
+    return <SchemaField {...props} schema={{ ...nonNull[0], description: nonNull[0].description ?? props.schema.description }} />
+  }
+
+  // A union of constants is an enum
+  if (resolved.every(variant => variant.const !== undefined)) {
+    return <EnumField {...props} schema={{ ...props.schema, enum: resolved.map(variant => variant.const) }} />
+  }
+
+  return (
+    <Fieldset legend={props.schema.title ?? label}>
+      <Stack gap="sm">
+        <Select
+          size="xs"
+          label="Type"
+          description={props.schema.description}
+          allowDeselect={false}
+          data={resolved.map((variant, index) => ({
+            value: String(index),
+            label: variant.title ?? getSchemaType(variant) ?? `Option ${index + 1}`
+          }))}
+          value={String(selected)}
+          onChange={(option) => {
+            const index = Number(option)
+            setSelected(index)
+            onChange(getDefaultValue(variants[index], root))
+          }}
+        />
+        <SchemaField {...props} schema={variants[selected]} />
+      </Stack>
+    </Fieldset>
+  )
+}
+
+/**
+ * Editor for a single value, chosen by the value's schema
+ */
+export function SchemaField(props: SchemaFieldProps) {
+  const refs = followRef(props.schema, props.refs ?? new Set())
+  const schema = resolveSchema(props.schema, props.root)
+
+  // A schema nested in itself would render forever, edit it as JSON instead
+  if (!refs) {
+    return <JsonField {...props} schema={schema} />
+  }
+
+  const fieldProps = { ...props, schema, refs }
+
+  const variants = schema.oneOf ?? schema.anyOf
+  if (variants) {
+    return <VariantField {...fieldProps} variants={variants} />
+  }
+
+  if (schema.enum) {
+    return <EnumField {...fieldProps} />
+  }
+
+  switch (getSchemaType(schema)) {
+    case 'string':
+      return <StringField {...fieldProps} />
+
+    case 'number':
+    case 'integer':
+      return <NumberField {...fieldProps} />
+
+    case 'boolean':
+      return (
+        <Switch
+          label={schema.title ?? props.label}
+          description={schema.description}
+          error={props.errors[props.path]}
+          checked={props.value === true}
+          onChange={(event) => props.onChange(event.currentTarget.checked)}
+        />
+      )
+
+    case 'object':
+      return schema.properties ? <ObjectField {...fieldProps} /> : <JsonField {...fieldProps} />
+
+    case 'array':
+      return <ArrayField {...fieldProps} />
+
+    case 'null':
+      return null
+
+    default:
+      return <JsonField {...fieldProps} />
+  }
+}
+
+/**
+ * Form for an object schema such as a tool's inputSchema
+ */
+export function SchemaForm({ schema, value, onChange, errors = {}, complete }: SchemaFormProps) {
+  const resolved = resolveSchema(schema, schema)
+  const properties = Object.entries(resolved.properties ?? {})
+
+  if (properties.length === 0) {
+    return <Text size="sm" c="dimmed">No parameters required</Text>
+  }
+
+  return (
+    <Stack gap="sm">
+      {properties.map(([name, property]) => (
+        <SchemaField
+          key={name}
+          schema={property}
+          root={schema}
+          label={name}
+          required={resolved.required?.includes(name)}
+          value={value[name]}
+          onChange={(propertyValue) => onChange(setProperty(value, name, propertyValue))}
+          errors={errors}
+          path={`/${escapePointer(name)}`}
+          complete={complete?.[name]}
+        />
+      ))}
+    </Stack>
+  )
+}
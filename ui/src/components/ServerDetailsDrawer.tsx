@@ -0,0 +1,182 @@
+import type { Icon, ServerCapabilities } from '@modelcontextprotocol/sdk/types.js'
+import type { ReactNode } from 'react'
+import {
+  Drawer,
+  Stack,
+  Group,
+  Text,
+  Title,
+  Badge,
+  Image,
+  Anchor,
+  Code,
+  Alert,
+  Paper,
+  Divider,
+  CopyButton,
+  ActionIcon,
+  Tooltip
+} from '@mantine/core'
+import { IconInfoCircle, IconCopy, IconCheck, IconServer } from '@tabler/icons-react'
+import type { MCPServer } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { getServerUrl, isServerConnected } from '../services/serverRegistry'
+import { JsonTree } from './JsonTree'
+
+interface ServerDetailsDrawerProps {
+  opened: boolean
+  onClose: () => void
+  server: MCPServer | null
+}
+
+type CapabilityName = 'tools' | 'resources' | 'prompts' | 'logging' | 'completions'
+
+// Capabilities in the spec, with the optional features each of them declares
+const CAPABILITIES: { name: CapabilityName; features: string[] }[] = [
+  { name: 'tools', features: ['listChanged'] },
+  { name: 'resources', features: ['subscribe', 'listChanged'] },
+  { name: 'prompts', features: ['listChanged'] },
+  { name: 'logging', features: [] },
+  { name: 'completions', features: [] }
+]
+
+// Icons may be relative to the server, e.g. ./mcp.svg
+function resolveIconSrc(icon: Icon, server: MCPServer): string {
+  try {
+    return new URL(icon.src, getServerUrl(server)).href
+  } catch {
+    return icon.src
+  }
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <Group justify="space-between" wrap="nowrap" gap="md">
+      <Text size="sm" c="dimmed" style={{ flexShrink: 0 }}>{label}</Text>
+      {children}
+    </Group>
+  )
+}
+
+function CapabilityList({ capabilities }: { capabilities: ServerCapabilities }) {
+  return (
+    <Stack gap={6}>
+      {CAPABILITIES.map(({ name, features }) => {
+        const capability = capabilities[name] as Record<string, unknown> | undefined
+        return (
+          <Group key={name} justify="space-between">
+            <Badge variant={capability ? 'light' : 'outline'} color={capability ? 'green' : 'gray'}>
+              {name}
+            </Badge>
+            <Group gap={4}>
+              {features.map((feature) => (
+                <Badge key={feature} size="xs" variant="dot" color={capability?.[feature] ? 'green' : 'gray'}>
+                  {feature}
+                </Badge>
+              ))}
+            </Group>
+          </Group>
+        )
+      })}
+    </Stack>
+  )
+}
+
+/**
+ * What a connected server told about itself during initialization
+ */
+export function ServerDetailsDrawer({ opened, onClose, server }: ServerDetailsDrawerProps) {
+  const { state, actions } = useMCP()
+
+  // Details are read from the live session, follow the server's status
+  const currentServer = server ? state.servers.find(s => s.id === server.id) ?? server : null
+  const details = currentServer && isServerConnected(currentServer) ? actions.getServerDetails(currentServer.id) : null
+  const implementation = details?.implementation
+  const icon = implementation?.icons?.[0]
+  const otherCapabilities = Object.fromEntries(
+    Object.entries(details?.capabilities ?? {}).filter(([name]) => !CAPABILITIES.some(capability => capability.name === name))
+  )
+
+  return (
+    <Drawer
+      opened={opened}
+      onClose={onClose}
+      position="right"
+      size="md"
+      title={currentServer ? `Server Details - ${currentServer.name}` : 'Server Details'}
+    >
+      {!currentServer || !details ? (
+        <Alert icon={<IconInfoCircle size={16} />} color="blue">
+          Connect to the server to see what it supports
+        </Alert>
+      ) : (
+        <Stack gap="md">
+          <Group gap="md" wrap="nowrap">
+            {icon ? (
+              <Image src={resolveIconSrc(icon, currentServer)} alt="" w={48} h={48} fit="contain" />
+            ) : (
+              <IconServer size={48} stroke={1.2} />
+            )}
+            <Stack gap={2} style={{ minWidth: 0 }}>
+              <Title order={4}>{implementation?.title ?? implementation?.name ?? currentServer.name}</Title>
+              <Group gap="xs">
+                {implementation?.title && <Text size="sm" c="dimmed">{implementation.name}</Text>}
+                {implementation?.version && <Badge size="sm" variant="light">v{implementation.version}</Badge>}
+              </Group>
+              {implementation?.websiteUrl && (
+                <Anchor href={implementation.websiteUrl} target="_blank" rel="noopener noreferrer" size="sm" truncate>
+                  {implementation.websiteUrl}
+                </Anchor>
+              )}
+            </Stack>
+          </Group>
+
+          <Divider label="Session" labelPosition="left" />
+          <Stack gap={6}>
+            <Field label="Transport">
+              <Text size="sm">{currentServer.transport ?? 'streamable-http'}</Text>
+            </Field>
+            <Field label="Protocol version">
+              <Code>{details.protocolVersion ?? 'unknown'}</Code>
+            </Field>
+            <Field label="Session id">
+              {details.sessionId ? (
+                <Group gap={4} wrap="nowrap" style={{ minWidth: 0 }}>
+                  <Code style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{details.sessionId}</Code>
+                  <CopyButton value={details.sessionId}>
+                    {({ copied, copy }) => (
+                      <Tooltip label={copied ? 'Copied' : 'Copy'}>
+                        <ActionIcon variant="subtle" size="sm" color={copied ? 'green' : 'gray'} onClick={copy}>
+                          {copied ? <IconCheck size={14} /> : <IconCopy size={14} />}
+                        </ActionIcon>
+                      </Tooltip>
+                    )}
+                  </CopyButton>
+                </Group>
+              ) : (
+                <Text size="sm" c="dimmed">None</Text>
+              )}
+            </Field>
+          </Stack>
+
+          <Divider label="Capabilities" labelPosition="left" />
+          <CapabilityList capabilities={details.capabilities ?? {}} />
+          {Object.keys(otherCapabilities).length > 0 && (
+            <Paper withBorder p="xs">
+              <JsonTree value={otherCapabilities} />
+            </Paper>
+          )}
+
+          <Divider label="Instructions" labelPosition="left" />
+          {details.instructions ? (
+            <Paper withBorder p="sm">
+              <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>{details.instructions}</Text>
+            </Paper>
+          ) : (
+            <Text size="sm" c="dimmed">The server gave no instructions</Text>
+          )}
+        </Stack>
+      )}
+    </Drawer>
+  )
+}
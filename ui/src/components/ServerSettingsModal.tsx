@@ -0,0 +1,345 @@
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  Select,
+  Button,
+  ActionIcon
+} from '@mantine/core'
+import { useForm } from '@mantine/form'
+import { notifications } from '@mantine/notifications'
+import { IconPlus, IconTrash, IconLogout, IconFolderPlus } from '@tabler/icons-react'
+import type { Root } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPServer, MCPTransportType } from '../types/mcp'
+import { useMCP } from '../contexts/MCPContext'
+import { getServerUrl, TRANSPORT_OPTIONS } from '../services/serverRegistry'
+import { mcpClient } from '../services/mcpClient'
+import { splitShellWords, joinShellWords, validateShellWords } from '../utils/shellWords'
+
+interface ServerSettingsModalProps {
+  opened: boolean
+  onClose: () => void
+  server: MCPServer | null
+}
+
+interface KeyValue {
+  key: string
+  value: string
+}
+
+interface RootValue {
+  uri: string
+  name: string
+}
+
+interface SettingsValues {
+  name: string
+  transport: MCPTransportType
+  url: string
+  headers: KeyValue[]
+  command: string
+  args: string
+  env: KeyValue[]
+  healthUrl: string
+  roots: RootValue[]
+}
+
+const toKeyValues = (record?: Record<string, string>): KeyValue[] =>
+  Object.entries(record ?? {}).map(([key, value]) => ({ key, value }))
+
+const toRecord = (entries: KeyValue[]): Record<string, string> | undefined => {
+  const filled = entries.filter(({ key }) => key.trim().length > 0)
+  return filled.length > 0
+    ? Object.fromEntries(filled.map(({ key, value }) => [key.trim(), value]))
+    : undefined
+}
+
+const toRootValues = (roots?: Root[]): RootValue[] =>
+  (roots ?? []).map(({ uri, name }) => ({ uri, name: name ?? '' }))
+
+const toRoots = (values: RootValue[]): Root[] =>
+  values.map(({ uri, name }) => (name.trim() ? { uri, name: name.trim() } : { uri }))
+
+function validateRootUri(value: string): string | null {
+  try {
+    return new URL(value).protocol === 'file:' ? null : 'Root must be a file:// URI'
+  } catch {
+    return 'Invalid URI'
+  }
+}
+
+function validateUrl(value: string): string | null {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:' ? null : 'URL must use http or https'
+  } catch {
+    return 'Invalid URL'
+  }
+}
+
+function toSettingsValues(server: MCPServer | null): SettingsValues {
+  const transport = server?.transport ?? 'streamable-http'
+  return {
+    name: server?.name ?? '',
+    transport,
+    url: server && transport !== 'stdio' ? getServerUrl(server) : '',
+    headers: toKeyValues(server?.headers),
+    command: server?.command ?? '',
+    args: joinShellWords(server?.args ?? []),
+    env: toKeyValues(server?.env),
+    healthUrl: server?.healthUrl ?? '',
+    roots: toRootValues(server?.roots)
+  }
+}
+
+/**
+ * Settings of one server, loaded when the modal mounts: key it by server id
+ * so that each server opens with its own values
+ */
+export function ServerSettingsModal({ opened, onClose, server }: ServerSettingsModalProps) {
+  const { actions } = useMCP()
+
+  const form = useForm<SettingsValues>({
+    initialValues: toSettingsValues(server),
+    validate: {
+      name: (value) => (value.length < 1 ? 'Name is required' : null),
+      url: (value, values) => (values.transport === 'stdio' ? null : validateUrl(value)),
+      command: (value, values) => (values.transport === 'stdio' && value.length < 1 ? 'Command is required' : null),
+      args: (value, values) => (values.transport === 'stdio' ? validateShellWords(value) : null),
+      healthUrl: (value) => (value ? validateUrl(value) : null),
+      roots: {
+        uri: validateRootUri
+      }
+    }
+  })
+
+  const handleSave = async (values: SettingsValues) => {
+    if (!server) return
+
+    const connection: Partial<MCPServer> = values.transport === 'stdio'
+      ? {
+          name: values.name,
+          transport: values.transport,
+          command: values.command,
+          args: splitShellWords(values.args),
+          env: toRecord(values.env)
+        }
+      : {
+          name: values.name,
+          transport: values.transport,
+          url: values.url,
+          domain: new URL(values.url).host,
+          headers: toRecord(values.headers)
+        }
+    const roots = toRoots(values.roots)
+    const updates: Partial<MCPServer> = { ...connection, healthUrl: values.healthUrl || undefined, roots }
+    // Edited roots alone are sent to the live session instead of reconnecting
+    const reconnects = server.status !== 'disconnected' &&
+      (Object.keys(values) as (keyof SettingsValues)[]).some(key => key !== 'roots' && form.isDirty(key))
+
+    try {
+      if (reconnects || server.status === 'disconnected') {
+        await actions.updateServer(server.id, updates)
+      } else {
+        await actions.setRoots(server.id, roots)
+      }
+      notifications.show({
+        title: 'Settings Saved',
+        message: reconnects
+          ? `${values.name} has been updated and reconnected`
+          : `${values.name} has been updated`,
+        color: 'green'
+      })
+      onClose()
+    } catch (error) {
+      notifications.show({
+        title: reconnects ? 'Reconnect Failed' : 'Roots Not Sent',
+        message: reconnects
+          ? `Settings saved, but reconnecting failed: ${(error as Error).message}`
+          : `Roots saved, but notifying the server failed: ${(error as Error).message}`,
+        color: 'red'
+      })
+    }
+  }
+
+  const handleSignOut = async () => {
+    if (!server) return
+
+    await actions.signOut(server.id)
+    notifications.show({
+      title: 'Signed Out',
+      message: `Stored credentials for ${server.name} have been cleared`,
+      color: 'blue'
+    })
+    onClose()
+  }
+
+  const renderKeyValueList = (field: 'headers' | 'env', keyPlaceholder: string, valuePlaceholder: string) => (
+    <Stack gap="xs">
+      {form.values[field].map((_, index) => (
+        <Group key={index} gap="xs" wrap="nowrap">
+          <TextInput
+            placeholder={keyPlaceholder}
+            style={{ flex: 1 }}
+            {...form.getInputProps(`${field}.${index}.key`)}
+          />
+          <TextInput
+            placeholder={valuePlaceholder}
+            style={{ flex: 2 }}
+            {...form.getInputProps(`${field}.${index}.value`)}
+          />
+          <ActionIcon
+            variant="light"
+            color="red"
+            onClick={() => form.removeListItem(field, index)}
+          >
+            <IconTrash size={16} />
+          </ActionIcon>
+        </Group>
+      ))}
+      <Group>
+        <Button
+          variant="subtle"
+          size="xs"
+          leftSection={<IconPlus size={14} />}
+          onClick={() => form.insertListItem(field, { key: '', value: '' })}
+        >
+          Add
+        </Button>
+      </Group>
+    </Stack>
+  )
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={server ? `Settings - ${server.name}` : 'Settings'}
+      size="lg"
+      centered
+      withinPortal
+    >
+      <form onSubmit={form.onSubmit(handleSave)}>
+        <Stack gap="md">
+          <TextInput
+            label="Server Name"
+            {...form.getInputProps('name')}
+          />
+          <Select
+            label="Transport"
+            data={TRANSPORT_OPTIONS}
+            allowDeselect={false}
+            {...form.getInputProps('transport')}
+          />
+
+          {form.values.transport === 'stdio' ? (
+            <>
+              <TextInput
+                label="Command"
+                placeholder="e.g., npx"
+                {...form.getInputProps('command')}
+              />
+              <TextInput
+                label="Arguments"
+                placeholder="e.g., tsx server.ts --stdio"
+                description="Quote arguments that contain spaces"
+                {...form.getInputProps('args')}
+              />
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>Environment Variables</Text>
+                {renderKeyValueList('env', 'NAME', 'value')}
+              </Stack>
+            </>
+          ) : (
+            <>
+              <TextInput
+                label="URL"
+                description="Full endpoint URL, including scheme and path"
+                placeholder="e.g., https://mcp.example.com/v1/mcp"
+                {...form.getInputProps('url')}
+              />
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>Request Headers</Text>
+                {renderKeyValueList('headers', 'Header', 'e.g., Bearer <token>')}
+              </Stack>
+            </>
+          )}
+
+          <TextInput
+            label="Health Check URL"
+            description="Optional HTTP endpoint probed with every ping, a non-2xx answer counts as unhealthy"
+            placeholder="e.g., http://localhost:8081/health"
+            {...form.getInputProps('healthUrl')}
+          />
+
+          <Stack gap={4}>
+            <Text size="sm" fw={500}>Roots</Text>
+            <Text size="xs" c="dimmed">
+              Directories the server may work in, changes are sent without reconnecting
+            </Text>
+            {form.values.roots.map((_, index) => (
+              <Group key={index} gap="xs" wrap="nowrap" align="flex-start">
+                <TextInput
+                  placeholder="file:///home/me/project"
+                  style={{ flex: 2 }}
+                  {...form.getInputProps(`roots.${index}.uri`)}
+                />
+                <TextInput
+                  placeholder="Name (optional)"
+                  style={{ flex: 1 }}
+                  {...form.getInputProps(`roots.${index}.name`)}
+                />
+                <ActionIcon
+                  variant="light"
+                  color="red"
+                  mt={4}
+                  onClick={() => form.removeListItem('roots', index)}
+                >
+                  <IconTrash size={16} />
+                </ActionIcon>
+              </Group>
+            ))}
+            <Group>
+              <Button
+                variant="subtle"
+                size="xs"
+                leftSection={<IconFolderPlus size={14} />}
+                onClick={() => form.insertListItem('roots', { uri: 'file://', name: '' })}
+              >
+                Add Root
+              </Button>
+            </Group>
+          </Stack>
+
+          {server && server.status !== 'disconnected' && (
+            <Text size="xs" c="dimmed">
+              The server will reconnect to apply the new connection settings.
+            </Text>
+          )}
+
+          <Group justify="flex-end" gap="sm">
+            {server && server.transport !== 'stdio' && mcpClient.isSignedIn(server.id) && (
+              <Button
+                variant="subtle"
+                color="red"
+                leftSection={<IconLogout size={16} />}
+                mr="auto"
+                onClick={handleSignOut}
+              >
+                Sign Out
+              </Button>
+            )}
+            <Button variant="light" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">
+              Save
+            </Button>
+          </Group>
+        </Stack>
+      </form>
+    </Modal>
+  )
+}
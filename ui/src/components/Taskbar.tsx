@@ -0,0 +1,46 @@
+import { Group, Button, Text, ScrollArea } from '@mantine/core'
+import { IconTool } from '@tabler/icons-react'
+import { useMCP } from '../contexts/MCPContext'
+import { useWorkspace, type WorkspaceWindow } from '../contexts/WorkspaceContext'
+
+/**
+ * One button per open tool window, to switch between them or minimize the
+ * one in front
+ */
+export function Taskbar() {
+  const { state: mcpState } = useMCP()
+  const { state, actions } = useWorkspace()
+
+  const handleClick = (toolWindow: WorkspaceWindow) => {
+    if (state.activeId === toolWindow.id) {
+      actions.minimizeWindow(toolWindow.id)
+    } else {
+      actions.focusWindow(toolWindow.id)
+    }
+  }
+
+  return (
+    <ScrollArea h="100%" scrollbars="x">
+      <Group gap="xs" h="100%" px="md" wrap="nowrap">
+        {state.windows.map((toolWindow) => {
+          const server = mcpState.servers.find(server => server.id === toolWindow.serverId)
+          const active = state.activeId === toolWindow.id
+
+          return (
+            <Button
+              key={toolWindow.id}
+              size="xs"
+              variant={active ? 'filled' : toolWindow.minimized ? 'default' : 'light'}
+              leftSection={<IconTool size={14} />}
+              onClick={() => handleClick(toolWindow)}
+              style={{ flexShrink: 0 }}
+            >
+              {toolWindow.tool.name}
+              <Text span size="xs" ml={6} opacity={0.7}>{server?.name}</Text>
+            </Button>
+          )
+        })}
+      </Group>
+    </ScrollArea>
+  )
+}
@@ -0,0 +1,75 @@
+import type { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { Stack, Group, Text, Badge, Alert, Paper, Divider } from '@mantine/core'
+import { IconAlertCircle } from '@tabler/icons-react'
+import { ContentBlockView } from './ContentBlockView'
+import { JsonTree } from './JsonTree'
+import { type JsonSchema, validateSchema } from '../utils/jsonSchema'
+
+interface ToolResultViewProps {
+  tool: Tool
+  result: CallToolResult
+}
+
+// structuredContent checked against the tool's outputSchema
+function StructuredContentView({ tool, result }: ToolResultViewProps) {
+  const outputSchema = tool.outputSchema as JsonSchema | undefined
+  const { structuredContent } = result
+
+  if (!structuredContent) {
+    // Error results are exempt from returning structured content
+    if (!outputSchema || result.isError) return null
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} color="orange">
+        The tool declares an output schema but returned no structured content
+      </Alert>
+    )
+  }
+
+  const errors = outputSchema ? Object.entries(validateSchema(outputSchema, structuredContent)) : []
+
+  return (
+    <Stack gap="xs">
+      <Group justify="space-between">
+        <Text size="sm" fw={500}>Structured Content</Text>
+        {outputSchema && (
+          errors.length === 0 ? (
+            <Badge size="sm" variant="light" color="green">Matches output schema</Badge>
+          ) : (
+            <Badge size="sm" variant="light" color="red">Schema mismatch</Badge>
+          )
+        )}
+      </Group>
+      {errors.map(([path, message]) => (
+        <Text key={path} size="xs" c="red">
+          {path || 'result'} {message}
+        </Text>
+      ))}
+      <Paper withBorder p="xs">
+        <JsonTree value={structuredContent} />
+      </Paper>
+    </Stack>
+  )
+}
+
+/**
+ * Every content block of a tools/call result, plus its structured content
+ */
+export function ToolResultView({ tool, result }: ToolResultViewProps) {
+  return (
+    <Stack gap="sm">
+      {result.isError && (
+        <Alert icon={<IconAlertCircle size={16} />} color="red" title="Tool returned an error" />
+      )}
+      {result.content.map((content, index) => (
+        <Stack key={index} gap="sm">
+          {index > 0 && <Divider />}
+          <ContentBlockView content={content} />
+        </Stack>
+      ))}
+      {result.content.length === 0 && !result.structuredContent && (
+        <Text size="sm" c="dimmed">Empty result</Text>
+      )}
+      <StructuredContentView tool={tool} result={result} />
+    </Stack>
+  )
+}
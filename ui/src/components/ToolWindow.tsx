@@ -1,64 +1,94 @@
 import { getToolUiResourceUri } from "@modelcontextprotocol/ext-apps/app-bridge";
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { useState, useEffect, useRef } from 'react'
+import type { Tool, CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { useState, useEffect, useRef, type FormEvent } from 'react'
 import {
-  Modal,
   Stack,
   Text,
   Button,
   Group,
   Paper,
-  NumberInput,
-  TextInput,
-  Select,
   Switch,
-  Slider,
-  Textarea,
-  Code,
+  JsonInput,
+  Alert,
   ScrollArea,
   Divider,
   Badge,
-  Loader
+  Loader,
+  Progress,
+  Box,
+  useComputedColorScheme
 } from '@mantine/core'
-import { useForm } from '@mantine/form'
 import { notifications } from '@mantine/notifications'
-import { IconPlayerPlay, IconPlayerStop } from '@tabler/icons-react'
+import { IconPlayerPlay, IconPlayerStop, IconAlertCircle, IconMessageQuestion } from '@tabler/icons-react'
 import type { MCPServer, ToolExecution } from '../types/mcp'
 import { useMCP } from '../contexts/MCPContext'
+import { useElicitation } from '../contexts/ElicitationContext'
 import {
   loadSandboxProxy,
   initializeApp,
   newAppBridge,
+  getHostContext,
   hasAppHtml,
   log,
   type ToolCallInfo
 } from '../utils/sandboxUtils'
-import { mcpClient } from '../services/mcpClient'
+import { mcpClient, getToolCompletionRefs } from '../services/mcpClient'
+import { SchemaForm } from './SchemaForm'
+import { ToolResultView } from './ToolResultView'
+import { LogEntryRow } from './LogConsole'
+import { ModelContextView } from './ModelContextView'
+import { type JsonSchema, type SchemaErrors, getDefaultValue, validateSchema } from '../utils/jsonSchema'
 
 interface ToolWindowProps {
-  opened: boolean
-  onClose: () => void
-  tool: Tool | null
-  server: MCPServer | null
+  tool: Tool
+  server: MCPServer
 }
 
 // AppIFramePanel component for UI tools
 function AppIFramePanel({ toolCallInfo }: { toolCallInfo: Required<ToolCallInfo> }) {
   const iframeRef = useRef<HTMLIFrameElement | null>(null)
   const appBridgeRef = useRef<ReturnType<typeof newAppBridge> | null>(null)
+  const [initialized, setInitialized] = useState(false)
+  const colorScheme = useComputedColorScheme('light')
+  // The bridge starts with the current theme, later switches go through
+  // setHostContext below instead of rebuilding it
+  const colorSchemeRef = useRef(colorScheme)
+
+  useEffect(() => {
+    colorSchemeRef.current = colorScheme
+  }, [colorScheme])
 
   useEffect(() => {
     const iframe = iframeRef.current!
     loadSandboxProxy(iframe).then((firstTime) => {
       // Guard against React Strict Mode's double invocation
       if (firstTime) {
-        const appBridge = newAppBridge(toolCallInfo.client, iframe)
+        const appBridge = newAppBridge(iframe, toolCallInfo, colorSchemeRef.current)
         appBridgeRef.current = appBridge
-        initializeApp(iframe, appBridge, toolCallInfo)
+        initializeApp(iframe, appBridge, toolCallInfo).then(() => setInitialized(true))
       }
     })
   }, [toolCallInfo])
 
+  // Once the app is up, tell it about theme switches and resizes. Only the
+  // fields that changed are sent with host-context-changed.
+  useEffect(() => {
+    const appBridge = appBridgeRef.current
+    if (!initialized || !appBridge) return
+
+    const iframe = iframeRef.current!
+    const update = () => appBridge.setHostContext(getHostContext(iframe, colorScheme))
+    update()
+
+    const resizeObserver = new ResizeObserver(update)
+    resizeObserver.observe(iframe)
+    window.addEventListener('resize', update)
+    return () => {
+      resizeObserver.disconnect()
+      window.removeEventListener('resize', update)
+    }
+  }, [initialized, colorScheme])
+
   return (
     <div style={{
       width: '100%',
@@ -79,168 +109,211 @@ function AppIFramePanel({ toolCallInfo }: { toolCallInfo: Required<ToolCallInfo>
   )
 }
 
-export function ToolWindow({ opened, onClose, tool, server }: ToolWindowProps) {
-  const { actions } = useMCP()
-  const [execution, setExecution] = useState<ToolExecution | null>(null)
-  const [output, setOutput] = useState<string>('')
-  const [toolCallInfo, setToolCallInfo] = useState<ToolCallInfo | null>(null)
-  const [hasUiResource, setHasUiResource] = useState<boolean>(false)
+// Determinate when the server reports a total, indeterminate otherwise
+function ExecutionProgress({ progress }: { progress?: ToolExecution['progress'] }) {
+  const total = progress?.total
+  const value = progress && total ? Math.min(100, (progress.progress / total) * 100) : 100
 
-  const form = useForm({
-    initialValues: {},
-    validate: (values) => {
-      if (!tool) return {}
+  return (
+    <Stack gap={4}>
+      <Progress value={value} animated={!total} striped={!total} />
+      <Group justify="space-between">
+        <Text size="xs" c="dimmed">{progress?.message ?? 'Waiting for progress...'}</Text>
+        {progress && total !== undefined && (
+          <Text size="xs" c="dimmed">{progress.progress} / {total}</Text>
+        )}
+      </Group>
+    </Stack>
+  )
+}
 
-      const errors: Record<string, string> = {}
-      const required = tool.inputSchema?.required || []
+interface ToolInputFormProps {
+  tool: Tool
+  server: MCPServer
+  running: boolean
+  onExecute: (values: Record<string, unknown>) => void
+  onStop: () => void
+}
 
-      required.forEach((field: string) => {
-        if (!values[field as keyof typeof values]) {
-          errors[field] = `${field} is required`
-        }
-      })
+// Parameters form generated from the tool's inputSchema, or raw JSON
+function ToolInputForm({ tool, server, running, onExecute, onStop }: ToolInputFormProps) {
+  const { actions } = useMCP()
+  const schema = tool.inputSchema as JsonSchema
+  const [values, setValues] = useState(() => (getDefaultValue(schema) ?? {}) as Record<string, unknown>)
+  const [errors, setErrors] = useState<SchemaErrors>({})
+  const [rawMode, setRawMode] = useState(false)
+  const [rawJson, setRawJson] = useState('')
+
+  // The other text arguments are the context of a completion
+  const complete = Object.fromEntries(
+    Object.entries(getToolCompletionRefs(tool)).map(([name, ref]) => [
+      name,
+      (value: string) => actions.complete(
+        server.id,
+        ref,
+        { name, value },
+        Object.fromEntries(
+          Object.entries(values).filter(([key, other]) => key !== name && typeof other === 'string')
+        ) as Record<string, string>
+      )
+    ])
+  )
 
-      return errors
+  const parseRawJson = (): Record<string, unknown> | null => {
+    try {
+      return JSON.parse(rawJson || '{}')
+    } catch {
+      setErrors({ '': 'Invalid JSON' })
+      return null
     }
-  })
-
-  // Listen for notifications from this server
-  useEffect(() => {
-    if (!server) return
+  }
 
-    const handleNotification = (event: CustomEvent) => {
-      const { serverId, notification } = event.detail
-      if (serverId === server.id) {
-        const message = notification.params?.data || JSON.stringify(notification)
-        setOutput(prev => prev + message + '\n')
-      }
+  const handleRawModeChange = (checked: boolean) => {
+    if (checked) {
+      setRawJson(JSON.stringify(values, null, 2))
+      setRawMode(true)
+      return
     }
 
-    window.addEventListener('mcp-notification', handleNotification as EventListener)
-
-    return () => {
-      window.removeEventListener('mcp-notification', handleNotification as EventListener)
+    // Only go back to the form with something it can show
+    const parsed = parseRawJson()
+    if (parsed) {
+      setValues(parsed)
+      setErrors({})
+      setRawMode(false)
     }
-  }, [server?.id])
+  }
 
-  useEffect(() => {
-    setOutput('')
-    setToolCallInfo(null)
-    setHasUiResource(false)
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
 
-    if (server?.id && tool) {
-      const uiResourceUri = getToolUiResourceUri(tool)
-      setHasUiResource(!!uiResourceUri)
+    const args = rawMode ? parseRawJson() : values
+    if (!args) return
 
-      if (uiResourceUri) {
-        log.info("Tool has UI resource:", uiResourceUri)
-      } else {
-        log.info("Tool has no UI resource, will use traditional output")
-      }
-    }
-  }, [server?.id, tool?.name])
-
-  const renderInputField = (propName: string, propSchema: any) => {
-    const isRequired = tool?.inputSchema?.required?.includes(propName) || false
-
-    switch (propSchema.type) {
-      case 'string':
-        if (propSchema.enum) {
-          return (
-            <Select
-              key={propName}
-              label={propName}
-              description={propSchema.description}
-              data={propSchema.enum}
-              required={isRequired}
-              {...form.getInputProps(propName)}
-            />
-          )
-        }
-        return (
-          <TextInput
-            key={propName}
-            label={propName}
-            description={propSchema.description}
-            required={isRequired}
-            {...form.getInputProps(propName)}
-          />
-        )
-
-      case 'number':
-      case 'integer':
-        if (propSchema.minimum !== undefined && propSchema.maximum !== undefined) {
-          return (
-            <Stack key={propName} gap={4}>
-              <Text size="sm" fw={500}>
-                {propName} {isRequired && <Text span c="red">*</Text>}
-              </Text>
-              {propSchema.description && (
-                <Text size="xs" c="dimmed">{propSchema.description}</Text>
-              )}
-              <Slider
-                min={propSchema.minimum}
-                max={propSchema.maximum}
-                step={1}
-                marks={[
-                  { value: propSchema.minimum, label: propSchema.minimum },
-                  { value: propSchema.maximum, label: propSchema.maximum }
-                ]}
-                {...form.getInputProps(propName)}
-              />
-            </Stack>
-          )
-        }
-        return (
-          <NumberInput
-            key={propName}
-            label={propName}
-            description={propSchema.description}
-            required={isRequired}
-            min={propSchema.minimum}
-            max={propSchema.maximum}
-            {...form.getInputProps(propName)}
-          />
-        )
-
-      case 'boolean':
-        return (
-          <Switch
-            key={propName}
-            label={propName}
-            description={propSchema.description}
-            {...form.getInputProps(propName, { type: 'checkbox' })}
-          />
-        )
-
-      default:
-        return (
-          <Textarea
-            key={propName}
-            label={propName}
-            description={propSchema.description}
-            required={isRequired}
-            {...form.getInputProps(propName)}
-          />
-        )
+    const validationErrors = validateSchema(schema, args)
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length === 0) {
+      onExecute(args)
     }
   }
 
-  const handleExecute = async (values: Record<string, any>) => {
-    if (!tool || !server) return
+  const errorList = Object.entries(errors)
+
+  return (
+    <Paper p="md" withBorder>
+      <form onSubmit={handleSubmit}>
+        <Stack gap="md">
+          <Group justify="space-between">
+            <Text fw={500}>Parameters</Text>
+            <Group gap="xs">
+              <Switch
+                size="xs"
+                label="Raw JSON"
+                checked={rawMode}
+                onChange={(event) => handleRawModeChange(event.currentTarget.checked)}
+              />
+              <Badge size="sm" variant="light">Input</Badge>
+            </Group>
+          </Group>
+
+          {rawMode ? (
+            <JsonInput
+              autosize
+              minRows={6}
+              formatOnBlur
+              value={rawJson}
+              onChange={setRawJson}
+            />
+          ) : (
+            <SchemaForm schema={schema} value={values} onChange={setValues} errors={errors} complete={complete} />
+          )}
+
+          {errorList.length > 0 && (
+            <Alert icon={<IconAlertCircle size={16} />} color="red" title="Invalid parameters">
+              {errorList.map(([path, message]) => (
+                <Text key={path} size="sm">
+                  {path || 'input'} {message}
+                </Text>
+              ))}
+            </Alert>
+          )}
+
+          <Group justify="flex-end">
+            {running ? (
+              <Button
+                leftSection={<IconPlayerStop size={16} />}
+                color="red"
+                onClick={onStop}
+              >
+                Stop
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                leftSection={<IconPlayerPlay size={16} />}
+              >
+                Execute
+              </Button>
+            )}
+          </Group>
+        </Stack>
+      </form>
+    </Paper>
+  )
+}
+
+/**
+ * Parameters, progress and output of one tool, shown in a workspace window
+ */
+export function ToolWindow({ tool, server }: ToolWindowProps) {
+  const { state, actions } = useMCP()
+  const { state: elicitation } = useElicitation()
+  const [execution, setExecution] = useState<ToolExecution | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<CallToolResult | null>(null)
+  const [toolCallInfo, setToolCallInfo] = useState<ToolCallInfo | null>(null)
+  // Aborts the running tools/call
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const uiResourceUri = getToolUiResourceUri(tool)
+  const hasUiResource = !!uiResourceUri
+
+  // The server asked the user something, most likely for this call
+  const waitingForInput = execution?.status === 'running' &&
+    elicitation.requests.some(request => request.serverId === server.id && request.receivedAt >= execution.startedAt)
+
+  // What the run's app last pushed with ui/update-model-context
+  const modelContext = execution ? state.modelContexts[execution.id] : undefined
+
+  // Messages the server logged since the last run started
+  const logs = execution
+    ? state.notifications.filter(entry => entry.serverId === server.id && entry.timestamp >= execution.startedAt)
+    : []
+
+  // Closing the window stops whatever it is running
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort('Tool window closed')
+  }, [])
 
+  const handleExecute = async (values: Record<string, any>) => {
     const newExecution: ToolExecution = {
+      id: crypto.randomUUID(),
       toolName: tool.name,
       serverId: server.id,
       parameters: values,
       status: 'running',
+      startedAt: Date.now(),
       isStreaming: tool.name === 'countdown' // Countdown tool streams output
     }
 
     setExecution(newExecution)
-    setOutput('')
+    setError(null)
+    setResult(null)
     setToolCallInfo(null)
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
     try {
       // Get the client for this server
       const clientInfo = mcpClient['clients']?.get(server.id)
@@ -249,19 +322,22 @@ export function ToolWindow({ opened, onClose, tool, server }: ToolWindowProps) {
       }
 
       // Create promise for the tool call result
-      const resultPromise = actions.callTool(server.id, tool.name, values)
+      const resultPromise = actions.callTool(server.id, tool.name, values, {
+        executionId: newExecution.id,
+        signal: abortController.signal,
+        onprogress: (progress) => setExecution(prev => prev ? { ...prev, progress } : null)
+      })
 
-      // Check if tool has UI resource
-      const uiResourceUri = getToolUiResourceUri(tool)
       let appResourcePromise: Promise<any> | undefined
 
-      if (hasUiResource && uiResourceUri) {
+      if (uiResourceUri) {
         // Create tool call info for UI tools
         appResourcePromise = actions.getUiResource(server.id, uiResourceUri)
 
         const newToolCallInfo: ToolCallInfo = {
           serverId: server.id,
           toolName: tool.name,
+          executionId: newExecution.id,
           client: clientInfo.client,
           input: values,
           resultPromise,
@@ -270,143 +346,155 @@ export function ToolWindow({ opened, onClose, tool, server }: ToolWindowProps) {
 
         setToolCallInfo(newToolCallInfo)
         log.info("Created tool call info for UI tool:", tool.name)
-      } else {
-        // Handle regular tools (non-UI)
-        const result = await resultPromise
+      }
 
-        if (result?.content?.[0]?.text) {
-          setOutput(result.content[0].text + '\n')
-        }
+      // UI tools hand the result to their app, regular tools show it here
+      const result = await resultPromise
+      if (!appResourcePromise) {
+        setResult(result)
+      }
+
+      // The call went through, but the tool itself failed
+      if (result.isError) {
+        const text = result.content.find(content => content.type === 'text')?.text
+        setExecution(prev => prev ? { ...prev, status: 'error' } : null)
+        notifications.show({
+          title: 'Tool Error',
+          message: text ? `${tool.name}: ${text}` : `${tool.name} returned an error`,
+          color: 'red'
+        })
+        return
       }
 
       setExecution(prev => prev ? { ...prev, status: 'completed' } : null)
       notifications.show({
         title: 'Tool Executed',
-        message: `${tool.name} started successfully`,
+        message: `${tool.name} completed successfully`,
         color: 'green'
       })
     } catch (error) {
+      // Stopped by the user, an open app has been told through tool-cancelled
+      if (abortController.signal.aborted) {
+        setExecution(prev => prev ? { ...prev, status: 'cancelled' } : null)
+        notifications.show({
+          title: 'Tool Stopped',
+          message: 'Execution was stopped',
+          color: 'yellow'
+        })
+        return
+      }
+
       setExecution(prev => prev ? { ...prev, status: 'error' } : null)
-      setOutput('Error executing tool: ' + (error as Error).message)
+      setError('Error executing tool: ' + (error as Error).message)
       setToolCallInfo(null)
       notifications.show({
         title: 'Execution Error',
         message: `Failed to execute ${tool.name}`,
         color: 'red'
       })
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
     }
   }
 
   const handleStop = () => {
-    setExecution(prev => prev ? { ...prev, status: 'completed' } : null)
-    setToolCallInfo(null)
-    notifications.show({
-      title: 'Tool Stopped',
-      message: 'Execution was stopped',
-      color: 'yellow'
-    })
+    // Sends notifications/cancelled, handleExecute reports the outcome
+    abortControllerRef.current?.abort('Cancelled by user')
   }
 
-  if (!tool) return null
-
-  const properties = tool.inputSchema?.properties || {}
-  const inputFields = Object.entries(properties).map(([name, schema]) =>
-    renderInputField(name, schema)
-  )
-
   return (
-    <Modal
-      opened={opened}
-      onClose={onClose}
-      title={`${tool.name} - ${server?.name}`}
-      size="xl"
-      centered
-    >
-      <Stack gap="md">
-        {tool.description && (
-          <Paper p="sm" withBorder>
-            <Text size="sm">{tool.description}</Text>
-          </Paper>
-        )}
-
-        {/* Input Form */}
-        <Paper p="md" withBorder>
-          <form onSubmit={form.onSubmit(handleExecute)}>
-            <Stack gap="md">
-              <Group justify="space-between">
-                <Text fw={500}>Parameters</Text>
-                <Badge size="sm" variant="light">Input</Badge>
-              </Group>
-
-              {inputFields.length > 0 ? (
-                <Stack gap="sm">{inputFields}</Stack>
-              ) : (
-                <Text size="sm" c="dimmed">No parameters required</Text>
-              )}
-
-              <Group justify="flex-end">
-                {execution?.status === 'running' ? (
-                  <Button
-                    leftSection={<IconPlayerStop size={16} />}
-                    color="red"
-                    onClick={handleStop}
-                  >
-                    Stop
-                  </Button>
-                ) : (
-                  <Button
-                    type="submit"
-                    leftSection={<IconPlayerPlay size={16} />}
-                  >
-                    Execute
-                  </Button>
-                )}
-              </Group>
-            </Stack>
-          </form>
+    <Stack gap="md">
+      {tool.description && (
+        <Paper p="sm" withBorder>
+          <Text size="sm">{tool.description}</Text>
         </Paper>
+      )}
+
+      {/* Input Form, remounted per tool to start from the schema defaults */}
+      <ToolInputForm
+        key={tool.name}
+        tool={tool}
+        server={server}
+        running={execution?.status === 'running'}
+        onExecute={handleExecute}
+        onStop={handleStop}
+      />
 
-        <Divider />
-
-        {/* Output */}
-        <Paper p="md" withBorder>
-          <Stack gap="sm">
-            <Group justify="space-between">
-              <Text fw={500}>Output</Text>
-              <Group gap="xs">
-                <Badge size="sm" variant="light">
-                  {hasUiResource ? 'Interactive UI' : 'Output'}
+      <Divider />
+
+      {/* Output */}
+      <Paper p="md" withBorder>
+        <Stack gap="sm">
+          <Group justify="space-between">
+            <Text fw={500}>Output</Text>
+            <Group gap="xs">
+              <Badge size="sm" variant="light">
+                {hasUiResource ? 'Interactive UI' : 'Output'}
+              </Badge>
+              {execution?.status === 'running' && (
+                <Group gap={4}>
+                  <Loader size="xs" />
+                  <Text size="xs" c="dimmed">Running...</Text>
+                </Group>
+              )}
+              {waitingForInput && (
+                <Badge size="sm" color="orange" leftSection={<IconMessageQuestion size={12} />}>
+                  Waiting for your input
                 </Badge>
-                {execution?.status === 'running' && (
-                  <Group gap={4}>
-                    <Loader size="xs" />
-                    <Text size="xs" c="dimmed">Running...</Text>
-                  </Group>
-                )}
-              </Group>
+              )}
             </Group>
-
-            {/* Show AppIFramePanel for UI tools, traditional output for regular tools */}
-            {toolCallInfo && hasAppHtml(toolCallInfo) ? (
-              <AppIFramePanel toolCallInfo={toolCallInfo} />
-            ) : hasUiResource ? (
-              <Text size="sm" c="dimmed" ta="center" py="xl">
-                Execute the tool to load the interactive UI.
-              </Text>
-            ) : (
-              <ScrollArea h={200}>
-                {output ? (
-                  <Code block>{output}</Code>
-                ) : (
-                  <Text size="sm" c="dimmed" ta="center" py="xl">
-                    No output yet. Execute the tool to see results.
-                  </Text>
-                )}
-              </ScrollArea>
-            )}
-          </Stack>
-        </Paper>
-      </Stack>
-    </Modal>
+          </Group>
+
+          {execution?.status === 'running' && (
+            <ExecutionProgress progress={execution.progress} />
+          )}
+
+          {/* Show AppIFramePanel for UI tools, traditional output for regular tools */}
+          {toolCallInfo && hasAppHtml(toolCallInfo) ? (
+            // The context panel comes and goes beside the iframe without remounting it
+            <Group align="flex-start" gap="sm" wrap="nowrap">
+              <Box style={{ flex: 1, minWidth: 0 }}>
+                {/* A fresh iframe and bridge for every run */}
+                <AppIFramePanel key={toolCallInfo.executionId} toolCallInfo={toolCallInfo} />
+              </Box>
+              {modelContext && (
+                <Box w={280} style={{ flexShrink: 0 }}>
+                  <ModelContextView context={modelContext} />
+                </Box>
+              )}
+            </Group>
+          ) : hasUiResource ? (
+            <Text size="sm" c="dimmed" ta="center" py="xl">
+              Execute the tool to load the interactive UI.
+            </Text>
+          ) : (
+            <Stack gap="sm">
+              {result && <ToolResultView tool={tool} result={result} />}
+              {error && (
+                <Alert icon={<IconAlertCircle size={16} />} color="red">
+                  {error}
+                </Alert>
+              )}
+              {logs.length > 0 && (
+                <ScrollArea.Autosize mah={200}>
+                  <Stack gap={4}>
+                    {logs.map((entry) => (
+                      <LogEntryRow key={entry.id} entry={entry} />
+                    ))}
+                  </Stack>
+                </ScrollArea.Autosize>
+              )}
+              {!result && !error && logs.length === 0 && (
+                <Text size="sm" c="dimmed" ta="center" py="xl">
+                  No output yet. Execute the tool to see results.
+                </Text>
+              )}
+            </Stack>
+          )}
+        </Stack>
+      </Paper>
+    </Stack>
   )
 }
\ No newline at end of file
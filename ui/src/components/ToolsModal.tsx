@@ -1,5 +1,4 @@
 import { type Tool } from "@modelcontextprotocol/sdk/types.js"
-import { useState } from 'react'
 import {
   Modal,
   Stack,
@@ -9,13 +8,17 @@ import {
   Group,
   Badge,
   Loader,
-  Alert
+  Alert,
+  Tabs,
+  ActionIcon,
+  Tooltip
 } from '@mantine/core'
-import { useDisclosure } from '@mantine/hooks'
-import { IconTool, IconInfoCircle } from '@tabler/icons-react'
+import { IconTool, IconInfoCircle, IconFiles, IconMessage, IconAppWindow } from '@tabler/icons-react'
 import type { MCPServer } from '../types/mcp'
-import { ToolWindow } from './ToolWindow'
+import { ResourcesPanel } from './ResourcesPanel'
+import { PromptsPanel } from './PromptsPanel'
 import { useMCP } from '../contexts/MCPContext'
+import { useWorkspace } from '../contexts/WorkspaceContext'
 
 interface ToolsModalProps {
   opened: boolean
@@ -24,94 +27,151 @@ interface ToolsModalProps {
 }
 
 export function ToolsModal({ opened, onClose, server }: ToolsModalProps) {
-  const { state } = useMCP()
-  const [selectedTool, setSelectedTool] = useState<Tool | null>(null)
-  const [toolWindowOpened, { open: openToolWindow, close: closeToolWindow }] = useDisclosure(false)
+  const { state, actions } = useMCP()
+  const { actions: workspace } = useWorkspace()
 
   // Get tools from the current server state
   const currentServer = server ? state.servers.find(s => s.id === server.id) : null
   const tools = currentServer?.tools || []
   const loading = currentServer?.status === 'connecting'
   const error = currentServer?.status === 'disconnected' ? 'Server not connected' : null
+  const reconnecting = currentServer?.status === 'reconnecting'
+  const addedTools = new Set(currentServer?.toolChanges?.added)
+  const removedTools = currentServer?.toolChanges?.removed ?? []
 
-  const handleToolSelect = (tool: Tool) => {
-    setSelectedTool(tool)
-    openToolWindow()
+  const handleClose = () => {
+    // Changes have been seen once the modal is closed
+    if (server) {
+      actions.acknowledgeToolChanges(server.id)
+    }
+    onClose()
   }
 
-  const handleToolWindowClose = () => {
-    closeToolWindow()
-    setSelectedTool(null)
+  // Tools run in their own workspace window, out from behind the modal
+  const handleToolSelect = (tool: Tool, newWindow = false) => {
+    if (!server) return
+    workspace.openToolWindow(server.id, tool, newWindow)
+    handleClose()
   }
 
   return (
-    <>
-      <Modal
-        opened={opened}
-        onClose={onClose}
-        title={server ? `Tools - ${server.name}` : 'Tools'}
-        size="lg"
-        centered
-        withinPortal
-      >
-        <Stack gap="md">
-          {loading && (
-            <Group justify="center" py="xl">
-              <Loader size="sm" />
-              <Text size="sm" c="dimmed">Loading tools...</Text>
-            </Group>
-          )}
+    <Modal
+      opened={opened}
+      onClose={handleClose}
+      title={server ? `Tools - ${server.name}` : 'Tools'}
+      size="lg"
+      centered
+      withinPortal
+    >
+      <Tabs defaultValue="tools" keepMounted={false}>
+        <Tabs.List mb="md">
+          <Tabs.Tab value="tools" leftSection={<IconTool size={14} />}>
+            Tools
+          </Tabs.Tab>
+          <Tabs.Tab value="resources" leftSection={<IconFiles size={14} />}>
+            Resources
+          </Tabs.Tab>
+          <Tabs.Tab value="prompts" leftSection={<IconMessage size={14} />}>
+            Prompts
+          </Tabs.Tab>
+        </Tabs.List>
 
-          {error && (
-            <Alert icon={<IconInfoCircle size={16} />} color="red">
-              {error}
-            </Alert>
-          )}
+        <Tabs.Panel value="tools">
+          <Stack gap="md">
+            {loading && (
+              <Group justify="center" py="xl">
+                <Loader size="sm" />
+                <Text size="sm" c="dimmed">Loading tools...</Text>
+              </Group>
+            )}
 
-          {!loading && !error && tools.length === 0 && (
-            <Text ta="center" c="dimmed" py="xl">
-              No tools available
-            </Text>
-          )}
+            {reconnecting && (
+              <Alert icon={<IconInfoCircle size={16} />} color="orange">
+                Connection lost, reconnecting...
+              </Alert>
+            )}
 
-          {!loading && !error && tools.length > 0 && (
-            <Stack gap="sm">
-              {tools.map((tool) => (
-                <Card key={tool.name} withBorder p="md">
-                  <Group justify="space-between" align="flex-start">
-                    <Stack gap={4} style={{ flex: 1 }}>
-                      <Group gap="sm">
-                        <IconTool size={16} />
-                        <Text fw={500}>{tool.name}</Text>
-                        <Badge size="sm" variant="light">Tool</Badge>
+            {error && (
+              <Alert icon={<IconInfoCircle size={16} />} color="red">
+                {error}
+              </Alert>
+            )}
+
+            {!loading && !error && tools.length === 0 && removedTools.length === 0 && (
+              <Text ta="center" c="dimmed" py="xl">
+                No tools available
+              </Text>
+            )}
+
+            {!loading && !error && (tools.length > 0 || removedTools.length > 0) && (
+              <Stack gap="sm">
+                {tools.map((tool) => (
+                  <Card
+                    key={tool.name}
+                    withBorder
+                    p="md"
+                    style={addedTools.has(tool.name) ? { borderColor: 'var(--mantine-color-green-6)' } : undefined}
+                  >
+                    <Group justify="space-between" align="flex-start">
+                      <Stack gap={4} style={{ flex: 1 }}>
+                        <Group gap="sm">
+                          <IconTool size={16} />
+                          <Text fw={500}>{tool.name}</Text>
+                          <Badge size="sm" variant="light">Tool</Badge>
+                          {addedTools.has(tool.name) && (
+                            <Badge size="sm" color="green">New</Badge>
+                          )}
+                        </Group>
+                        {tool.description && (
+                          <Text size="sm" c="dimmed">
+                            {tool.description}
+                          </Text>
+                        )}
+                      </Stack>
+                      <Group gap="xs" wrap="nowrap">
+                        <Button
+                          size="sm"
+                          onClick={() => handleToolSelect(tool)}
+                        >
+                          Open
+                        </Button>
+                        <Tooltip label="Open in new window">
+                          <ActionIcon size="lg" variant="light" onClick={() => handleToolSelect(tool, true)}>
+                            <IconAppWindow size={18} />
+                          </ActionIcon>
+                        </Tooltip>
                       </Group>
-                      {tool.description && (
-                        <Text size="sm" c="dimmed">
-                          {tool.description}
-                        </Text>
-                      )}
-                    </Stack>
-                    <Button
-                      size="sm"
-                      onClick={() => handleToolSelect(tool)}
-                    >
-                      Open
-                    </Button>
-                  </Group>
-                </Card>
-              ))}
-            </Stack>
-          )}
-        </Stack>
-      </Modal>
+                    </Group>
+                  </Card>
+                ))}
+                {removedTools.map((tool) => (
+                  <Card
+                    key={`removed-${tool.name}`}
+                    withBorder
+                    p="md"
+                    opacity={0.6}
+                    style={{ borderColor: 'var(--mantine-color-red-6)' }}
+                  >
+                    <Group gap="sm">
+                      <IconTool size={16} />
+                      <Text fw={500} td="line-through">{tool.name}</Text>
+                      <Badge size="sm" color="red">Removed</Badge>
+                    </Group>
+                  </Card>
+                ))}
+              </Stack>
+            )}
+          </Stack>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="resources">
+          {currentServer && <ResourcesPanel server={currentServer} />}
+        </Tabs.Panel>
 
-      {/* Tool Window */}
-      <ToolWindow
-        opened={toolWindowOpened}
-        onClose={handleToolWindowClose}
-        tool={selectedTool}
-        server={server}
-      />
-    </>
+        <Tabs.Panel value="prompts">
+          {currentServer && <PromptsPanel server={currentServer} />}
+        </Tabs.Panel>
+      </Tabs>
+    </Modal>
   )
 }
\ No newline at end of file
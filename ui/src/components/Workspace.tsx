@@ -0,0 +1,135 @@
+import { useRef, type PointerEvent } from 'react'
+import { Paper, Group, Text, ActionIcon, Box, Alert } from '@mantine/core'
+import { IconMinus, IconX, IconInfoCircle } from '@tabler/icons-react'
+import { useMCP } from '../contexts/MCPContext'
+import { useWorkspace, type WorkspaceWindow } from '../contexts/WorkspaceContext'
+import { ToolWindow } from './ToolWindow'
+
+// Windows stack above the page but below modals (z-index 200)
+const WINDOW_Z_BASE = 100
+const TITLE_BAR_HEIGHT = 36
+
+/**
+ * Pointer handlers reporting how far the pointer moved since the last event.
+ * The pointer is captured so dragging over an iframe doesn't lose it.
+ */
+function usePointerDrag(onDrag: (dx: number, dy: number) => void) {
+  const last = useRef<{ x: number; y: number } | null>(null)
+
+  return {
+    onPointerDown: (event: PointerEvent<HTMLElement>) => {
+      // Leave the title bar buttons clickable
+      if ((event.target as HTMLElement).closest('button')) return
+      event.currentTarget.setPointerCapture(event.pointerId)
+      last.current = { x: event.clientX, y: event.clientY }
+    },
+    onPointerMove: (event: PointerEvent<HTMLElement>) => {
+      if (!last.current) return
+      onDrag(event.clientX - last.current.x, event.clientY - last.current.y)
+      last.current = { x: event.clientX, y: event.clientY }
+    },
+    onPointerUp: () => {
+      last.current = null
+    }
+  }
+}
+
+function WindowFrame({ toolWindow, layer }: { toolWindow: WorkspaceWindow; layer: number }) {
+  const { state: mcpState } = useMCP()
+  const { state, actions } = useWorkspace()
+  const { id, tool } = toolWindow
+  const server = mcpState.servers.find(server => server.id === toolWindow.serverId)
+  const active = state.activeId === id
+
+  const dragHandlers = usePointerDrag((dx, dy) => actions.moveWindow(id, dx, dy))
+  const resizeHandlers = usePointerDrag((dx, dy) => actions.resizeWindow(id, dx, dy))
+
+  return (
+    <Paper
+      shadow={active ? 'xl' : 'md'}
+      withBorder
+      onPointerDownCapture={() => !active && actions.focusWindow(id)}
+      style={{
+        position: 'fixed',
+        left: toolWindow.x,
+        top: toolWindow.y,
+        width: toolWindow.width,
+        height: toolWindow.height,
+        zIndex: WINDOW_Z_BASE + layer,
+        // Hidden rather than unmounted, so the tool keeps running
+        display: toolWindow.minimized ? 'none' : 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        borderColor: active ? 'var(--mantine-primary-color-filled)' : undefined
+      }}
+    >
+      <Group
+        justify="space-between"
+        wrap="nowrap"
+        px="sm"
+        h={TITLE_BAR_HEIGHT}
+        bg={active ? 'var(--mantine-primary-color-light)' : 'var(--mantine-color-default-hover)'}
+        style={{ cursor: 'move', userSelect: 'none', flexShrink: 0, touchAction: 'none' }}
+        {...dragHandlers}
+      >
+        <Text size="sm" fw={500} truncate>
+          {tool.name} - {server?.name ?? 'Removed server'}
+        </Text>
+        <Group gap={4} wrap="nowrap">
+          <ActionIcon variant="subtle" color="gray" size="sm" title="Minimize" onClick={() => actions.minimizeWindow(id)}>
+            <IconMinus size={14} />
+          </ActionIcon>
+          <ActionIcon variant="subtle" color="gray" size="sm" title="Close" onClick={() => actions.closeWindow(id)}>
+            <IconX size={14} />
+          </ActionIcon>
+        </Group>
+      </Group>
+
+      <Box p="md" style={{ flex: 1, overflow: 'auto' }}>
+        {server ? (
+          <ToolWindow tool={tool} server={server} />
+        ) : (
+          <Alert icon={<IconInfoCircle size={16} />} color="red">
+            The server of this tool has been removed
+          </Alert>
+        )}
+      </Box>
+
+      {/* Resize handle */}
+      <Box
+        style={{
+          position: 'absolute',
+          right: 0,
+          bottom: 0,
+          width: 16,
+          height: 16,
+          cursor: 'nwse-resize',
+          touchAction: 'none'
+        }}
+        {...resizeHandlers}
+      />
+    </Paper>
+  )
+}
+
+/**
+ * The open tool windows, each of them draggable, resizable and minimizable
+ */
+export function Workspace() {
+  const { state } = useWorkspace()
+
+  // Stacking layer of each window, kept within the number of windows
+  const layers = new Map(
+    [...state.windows]
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .map((toolWindow, index) => [toolWindow.id, index])
+  )
+
+  return (
+    <>
+      {state.windows.map((toolWindow) => (
+        <WindowFrame key={toolWindow.id} toolWindow={toolWindow} layer={layers.get(toolWindow.id) ?? 0} />
+      ))}
+    </>
+  )
+}
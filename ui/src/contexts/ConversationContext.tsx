@@ -0,0 +1,114 @@
+import { createContext, useContext, useReducer, useEffect, useRef } from 'react'
+import type { ReactNode } from 'react'
+import type { ConversationTurn } from '../types/mcp'
+import { mcpClient } from '../services/mcpClient'
+
+interface ConversationState {
+  // Oldest first
+  turns: ConversationTurn[]
+}
+
+type ConversationAction =
+  | { type: 'ADD_TURN'; payload: ConversationTurn }
+  | { type: 'SET_TURN_STATUS'; payload: { id: string; status: ConversationTurn['status'] } }
+  | { type: 'REMOVE_TURN'; payload: string }
+  | { type: 'CLEAR_TURNS' }
+
+const initialState: ConversationState = {
+  turns: []
+}
+
+function conversationReducer(state: ConversationState, action: ConversationAction): ConversationState {
+  switch (action.type) {
+    case 'ADD_TURN':
+      return { turns: [...state.turns, action.payload] }
+
+    case 'SET_TURN_STATUS':
+      return {
+        turns: state.turns.map(turn =>
+          turn.id === action.payload.id ? { ...turn, status: action.payload.status } : turn
+        )
+      }
+
+    case 'REMOVE_TURN':
+      return { turns: state.turns.filter(turn => turn.id !== action.payload) }
+
+    case 'CLEAR_TURNS':
+      // Apps are still waiting on the pending ones
+      return { turns: state.turns.filter(turn => turn.status === 'pending') }
+
+    default:
+      return state
+  }
+}
+
+interface ConversationContextType {
+  state: ConversationState
+  actions: {
+    accept: (id: string) => void
+    reject: (id: string) => void
+    clear: () => void
+  }
+}
+
+const ConversationContext = createContext<ConversationContextType | undefined>(undefined)
+
+export function ConversationProvider({ children }: { children: ReactNode }) {
+  const [state, dispatch] = useReducer(conversationReducer, initialState)
+  // Resolvers the apps' messages are waiting on, by turn id
+  const pendingRef = useRef<Map<string, (accepted: boolean) => void>>(new Map())
+
+  useEffect(() => {
+    const pending = pendingRef.current
+
+    mcpClient.setAppMessageHandler((message, signal) => new Promise((resolve) => {
+      const id = crypto.randomUUID()
+      pending.set(id, resolve)
+      dispatch({ type: 'ADD_TURN', payload: { ...message, id, receivedAt: Date.now(), status: 'pending' } })
+
+      // The app stopped waiting, there is nothing left to decide
+      signal.addEventListener('abort', () => {
+        if (pending.delete(id)) {
+          dispatch({ type: 'REMOVE_TURN', payload: id })
+          resolve(false)
+        }
+      })
+    }))
+
+    return () => {
+      mcpClient.setAppMessageHandler(undefined)
+      pending.forEach(resolve => resolve(false))
+      pending.clear()
+    }
+  }, [])
+
+  const settle = (id: string, accepted: boolean) => {
+    const resolve = pendingRef.current.get(id)
+    if (!resolve) return
+    pendingRef.current.delete(id)
+    dispatch({ type: 'SET_TURN_STATUS', payload: { id, status: accepted ? 'accepted' : 'rejected' } })
+    resolve(accepted)
+  }
+
+  const actions: ConversationContextType['actions'] = {
+    accept: (id: string) => settle(id, true),
+
+    reject: (id: string) => settle(id, false),
+
+    clear: () => dispatch({ type: 'CLEAR_TURNS' })
+  }
+
+  return (
+    <ConversationContext.Provider value={{ state, actions }}>
+      {children}
+    </ConversationContext.Provider>
+  )
+}
+
+export function useConversation() {
+  const context = useContext(ConversationContext)
+  if (context === undefined) {
+    throw new Error('useConversation must be used within a ConversationProvider')
+  }
+  return context
+}
@@ -0,0 +1,104 @@
+import type { ElicitRequestFormParams, ElicitResult } from '@modelcontextprotocol/sdk/types.js'
+import { createContext, useContext, useReducer, useEffect, useRef } from 'react'
+import type { ReactNode } from 'react'
+import { mcpClient } from '../services/mcpClient'
+
+/**
+ * An elicitation/create request waiting for the user to fill in its form
+ */
+export interface ElicitationRequest {
+  id: string
+  serverId: string
+  params: ElicitRequestFormParams
+  receivedAt: number
+}
+
+interface ElicitationState {
+  // Oldest first, the dialog shows the first one
+  requests: ElicitationRequest[]
+}
+
+type ElicitationAction =
+  | { type: 'ADD_REQUEST'; payload: ElicitationRequest }
+  | { type: 'REMOVE_REQUEST'; payload: string }
+
+const initialState: ElicitationState = {
+  requests: []
+}
+
+function elicitationReducer(state: ElicitationState, action: ElicitationAction): ElicitationState {
+  switch (action.type) {
+    case 'ADD_REQUEST':
+      return { requests: [...state.requests, action.payload] }
+
+    case 'REMOVE_REQUEST':
+      return { requests: state.requests.filter(request => request.id !== action.payload) }
+
+    default:
+      return state
+  }
+}
+
+interface ElicitationContextType {
+  state: ElicitationState
+  actions: {
+    // accept with the form content, decline, or cancel (dismissed)
+    respond: (id: string, result: ElicitResult) => void
+  }
+}
+
+const ElicitationContext = createContext<ElicitationContextType | undefined>(undefined)
+
+export function ElicitationProvider({ children }: { children: ReactNode }) {
+  const [state, dispatch] = useReducer(elicitationReducer, initialState)
+  // Resolvers the servers' requests are waiting on, by request id
+  const pendingRef = useRef<Map<string, (result: ElicitResult) => void>>(new Map())
+
+  useEffect(() => {
+    const pending = pendingRef.current
+
+    mcpClient.setElicitationHandler((serverId, params, signal) => new Promise((resolve, reject) => {
+      const id = crypto.randomUUID()
+      pending.set(id, resolve)
+      dispatch({ type: 'ADD_REQUEST', payload: { id, serverId, params, receivedAt: Date.now() } })
+
+      // The server gave up on the request
+      signal.addEventListener('abort', () => {
+        if (pending.delete(id)) {
+          dispatch({ type: 'REMOVE_REQUEST', payload: id })
+          reject(signal.reason)
+        }
+      })
+    }))
+
+    return () => {
+      mcpClient.setElicitationHandler(undefined)
+      pending.forEach(resolve => resolve({ action: 'cancel' }))
+      pending.clear()
+    }
+  }, [])
+
+  const actions: ElicitationContextType['actions'] = {
+    respond: (id: string, result: ElicitResult) => {
+      const resolve = pendingRef.current.get(id)
+      if (!resolve) return
+      pendingRef.current.delete(id)
+      dispatch({ type: 'REMOVE_REQUEST', payload: id })
+      resolve(result)
+    }
+  }
+
+  return (
+    <ElicitationContext.Provider value={{ state, actions }}>
+      {children}
+    </ElicitationContext.Provider>
+  )
+}
+
+export function useElicitation() {
+  const context = useContext(ElicitationContext)
+  if (context === undefined) {
+    throw new Error('useElicitation must be used within an ElicitationProvider')
+  }
+  return context
+}
@@ -1,24 +1,80 @@
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  Tool,
+  Resource,
+  ResourceTemplate,
+  ReadResourceResult,
+  Prompt,
+  GetPromptResult,
+  CompleteRequest,
+  CallToolResult,
+  LoggingLevel,
+  Root
+} from "@modelcontextprotocol/sdk/types.js";
 import { createContext, useContext, useReducer, useEffect } from 'react'
 import type { ReactNode } from 'react'
-import type { MCPServer } from '../types/mcp'
-import { mcpClient, UiResourceData } from '../services/mcpClient'
+import type { MCPServer, ToolChanges, ToolExecution, LogEntry, TrafficEntry, HealthSample, ModelContext } from '../types/mcp'
+import { mcpClient, type UiResourceData, type MCPListKind, type ToolCallOptions, type ServerDetails } from '../services/mcpClient'
+import {
+  loadServers,
+  saveServers,
+  exportServersConfig,
+  importServersConfig,
+  isServerConnected,
+  type ImportResult,
+  type MCPServersConfig
+} from '../services/serverRegistry'
+import { loadHistory, saveHistory, MAX_HISTORY } from '../services/executionHistory'
+import { healthMonitor, isHealthy, HEALTH_POLICY } from '../services/healthMonitor'
 
 interface MCPState {
   servers: MCPServer[]
-  notifications: { serverId: string; message: any; timestamp: number }[]
+  // Log messages of all servers and their apps, oldest first
+  notifications: LogEntry[]
+  // Level last requested with logging/setLevel, by server id
+  logLevels: Record<string, LoggingLevel>
+  // JSON-RPC messages of all servers and their apps, oldest first
+  traffic: TrafficEntry[]
   progress: { serverId: string; data: any; timestamp: number }[]
+  // Time of the last `resources/updated` notification, by server id and resource URI
+  resourceUpdates: Record<string, Record<string, number>>
+  // Time of the last list_changed notification, by server id and list
+  listChanges: Record<string, Partial<Record<MCPListKind, number>>>
+  // Every tool call made from the dashboard, newest first
+  history: ToolExecution[]
+  // Recent health checks, oldest first, by server id
+  health: Record<string, HealthSample[]>
+  // Latest context each MCP App pushed, by execution id
+  modelContexts: Record<string, ModelContext>
 }
 
 type MCPAction =
   | { type: 'ADD_SERVER'; payload: MCPServer }
   | { type: 'UPDATE_SERVER'; payload: { id: string; updates: Partial<MCPServer> } }
   | { type: 'REMOVE_SERVER'; payload: string }
+  | { type: 'IMPORT_SERVERS'; payload: MCPServer[] }
   | { type: 'SET_SERVER_STATUS'; payload: { id: string; status: MCPServer['status'] } }
   | { type: 'SET_SERVER_TOOLS'; payload: { id: string; tools: Tool[] } }
-  | { type: 'ADD_NOTIFICATION'; payload: { serverId: string; message: any } }
+  | { type: 'TOOLS_CHANGED'; payload: { id: string; tools: Tool[] } }
+  | { type: 'ACKNOWLEDGE_TOOL_CHANGES'; payload: string }
+  | { type: 'ADD_NOTIFICATION'; payload: { serverId: string; message: any; source: LogEntry['source'] } }
   | { type: 'ADD_PROGRESS'; payload: { serverId: string; data: any } }
   | { type: 'CLEAR_NOTIFICATIONS'; payload?: string }
+  | { type: 'SET_LOG_LEVEL'; payload: { serverId: string; level: LoggingLevel } }
+  | { type: 'ADD_TRAFFIC'; payload: TrafficEntry }
+  | { type: 'RECORD_HEALTH'; payload: { serverId: string; sample: HealthSample } }
+  | { type: 'CLEAR_TRAFFIC'; payload?: string }
+  | { type: 'SET_MODEL_CONTEXT'; payload: ModelContext }
+  | { type: 'REMOVE_MODEL_CONTEXT'; payload: string }
+  | { type: 'RESOURCE_UPDATED'; payload: { serverId: string; uri: string } }
+  | { type: 'LIST_CHANGED'; payload: { serverId: string; list: MCPListKind } }
+  | { type: 'RECORD_EXECUTION'; payload: ToolExecution }
+  | { type: 'UPDATE_EXECUTION'; payload: { id: string; updates: Partial<ToolExecution> } }
+  | { type: 'REMOVE_EXECUTION'; payload: string }
+  | { type: 'CLEAR_HISTORY' }
+
+// Oldest log messages are dropped beyond this
+const MAX_LOG_ENTRIES = 1000
+const MAX_TRAFFIC_ENTRIES = 2000
 
 const initialState: MCPState = {
   servers: [{
@@ -33,7 +89,38 @@ const initialState: MCPState = {
     status: 'disconnected'
   }],
   notifications: [],
-  progress: []
+  logLevels: {},
+  traffic: [],
+  progress: [],
+  resourceUpdates: {},
+  listChanges: {},
+  history: [],
+  health: {},
+  modelContexts: {}
+}
+
+function initState(state: MCPState): MCPState {
+  // Restore the persisted registry, falling back to the default servers
+  return { ...state, servers: loadServers() ?? state.servers, history: loadHistory() }
+}
+
+/**
+ * Fold the difference between two tool lists into the unacknowledged changes
+ */
+function diffTools(previous: Tool[], next: Tool[], changes: ToolChanges = { added: [], removed: [] }): ToolChanges {
+  const previousNames = new Set(previous.map(tool => tool.name))
+  const nextNames = new Set(next.map(tool => tool.name))
+
+  return {
+    added: [
+      ...changes.added.filter(name => nextNames.has(name)),
+      ...next.filter(tool => !previousNames.has(tool.name)).map(tool => tool.name)
+    ],
+    removed: [
+      ...changes.removed.filter(tool => !nextNames.has(tool.name)),
+      ...previous.filter(tool => !nextNames.has(tool.name))
+    ]
+  }
 }
 
 function mcpReducer(state: MCPState, action: MCPAction): MCPState {
@@ -60,6 +147,18 @@ function mcpReducer(state: MCPState, action: MCPAction): MCPState {
         servers: state.servers.filter(server => server.id !== action.payload)
       }
 
+    case 'IMPORT_SERVERS': {
+      // Imported servers replace existing ones with the same name
+      const names = new Set(action.payload.map(server => server.name))
+      return {
+        ...state,
+        servers: [
+          ...state.servers.filter(server => !names.has(server.name)),
+          ...action.payload
+        ]
+      }
+    }
+
     case 'SET_SERVER_STATUS':
       return {
         ...state,
@@ -71,28 +170,69 @@ function mcpReducer(state: MCPState, action: MCPAction): MCPState {
       }
 
     case 'SET_SERVER_TOOLS':
+      // A full fetch (connect or disconnect) starts change tracking over
       return {
         ...state,
         servers: state.servers.map(server =>
           server.id === action.payload.id
-            ? { ...server, tools: action.payload.tools }
+            ? { ...server, tools: action.payload.tools, toolChanges: undefined }
             : server
         )
       }
 
-    case 'ADD_NOTIFICATION':
+    case 'TOOLS_CHANGED':
       return {
         ...state,
-        notifications: [
-          ...state.notifications,
-          {
-            serverId: action.payload.serverId,
-            message: action.payload.message,
-            timestamp: Date.now()
-          }
-        ].slice(-50) // Keep only last 50 notifications
+        servers: state.servers.map(server =>
+          server.id === action.payload.id
+            ? {
+                ...server,
+                tools: action.payload.tools,
+                toolChanges: diffTools(server.tools ?? [], action.payload.tools, server.toolChanges)
+              }
+            : server
+        )
       }
 
+    case 'ACKNOWLEDGE_TOOL_CHANGES':
+      return {
+        ...state,
+        servers: state.servers.map(server =>
+          server.id === action.payload
+            ? { ...server, toolChanges: undefined }
+            : server
+        )
+      }
+
+    case 'ADD_NOTIFICATION': {
+      const { serverId, message, source } = action.payload
+      const entry: LogEntry = {
+        id: crypto.randomUUID(),
+        serverId,
+        level: message.params?.level ?? 'info',
+        logger: message.params?.logger,
+        data: message.params?.data,
+        timestamp: Date.now(),
+        source
+      }
+      return {
+        ...state,
+        notifications: [...state.notifications, entry].slice(-MAX_LOG_ENTRIES),
+        // Server logs are attributed to every call running on it at the time
+        history: source !== 'server' ? state.history : state.history.map(execution =>
+          execution.serverId === serverId && execution.status === 'running'
+            ? {
+                ...execution,
+                notifications: [
+                  ...(execution.notifications ?? []),
+                  { level: entry.level, data: entry.data, timestamp: entry.timestamp }
+                ]
+              }
+            : execution
+        )
+      }
+    }
+
     case 'ADD_PROGRESS':
       return {
         ...state,
@@ -114,46 +254,255 @@ function mcpReducer(state: MCPState, action: MCPAction): MCPState {
           : []
       }
 
+    case 'SET_LOG_LEVEL':
+      return {
+        ...state,
+        logLevels: { ...state.logLevels, [action.payload.serverId]: action.payload.level }
+      }
+
+    case 'ADD_TRAFFIC':
+      return {
+        ...state,
+        traffic: [...state.traffic, action.payload].slice(-MAX_TRAFFIC_ENTRIES)
+      }
+
+    case 'CLEAR_TRAFFIC':
+      return {
+        ...state,
+        traffic: action.payload
+          ? state.traffic.filter(entry => entry.serverId !== action.payload)
+          : []
+      }
+
+    case 'SET_MODEL_CONTEXT':
+      return {
+        ...state,
+        modelContexts: { ...state.modelContexts, [action.payload.id]: action.payload }
+      }
+
+    case 'REMOVE_MODEL_CONTEXT':
+      return {
+        ...state,
+        modelContexts: Object.fromEntries(
+          Object.entries(state.modelContexts).filter(([id]) => id !== action.payload)
+        )
+      }
+
+    case 'RECORD_HEALTH': {
+      const { serverId, sample } = action.payload
+      const samples = [...(state.health[serverId] ?? []), sample].slice(-HEALTH_POLICY.historySize)
+      const recent = samples.slice(-HEALTH_POLICY.missedPings)
+      const unhealthy = recent.length === HEALTH_POLICY.missedPings && !recent.some(isHealthy)
+
+      return {
+        ...state,
+        health: { ...state.health, [serverId]: samples },
+        // A server recovers with its first healthy check
+        servers: state.servers.map(server =>
+          server.id === serverId && isServerConnected(server)
+            ? { ...server, status: unhealthy ? 'unhealthy' : isHealthy(sample) ? 'connected' : server.status }
+            : server
+        )
+      }
+    }
+
+    case 'RESOURCE_UPDATED': {
+      const { serverId, uri } = action.payload
+      return {
+        ...state,
+        resourceUpdates: {
+          ...state.resourceUpdates,
+          [serverId]: { ...state.resourceUpdates[serverId], [uri]: Date.now() }
+        }
+      }
+    }
+
+    case 'LIST_CHANGED': {
+      const { serverId, list } = action.payload
+      return {
+        ...state,
+        listChanges: {
+          ...state.listChanges,
+          [serverId]: { ...state.listChanges[serverId], [list]: Date.now() }
+        }
+      }
+    }
+
+    case 'RECORD_EXECUTION':
+      return {
+        ...state,
+        history: [action.payload, ...state.history].slice(0, MAX_HISTORY)
+      }
+
+    case 'UPDATE_EXECUTION':
+      return {
+        ...state,
+        history: state.history.map(execution =>
+          execution.id === action.payload.id
+            ? { ...execution, ...action.payload.updates }
+            : execution
+        )
+      }
+
+    case 'REMOVE_EXECUTION':
+      return {
+        ...state,
+        history: state.history.filter(execution => execution.id !== action.payload)
+      }
+
+    case 'CLEAR_HISTORY':
+      return {
+        ...state,
+        history: []
+      }
+
     default:
       return state
   }
 }
 
+// Tool call options plus the id to record the call under in the history
+type CallToolOptions = ToolCallOptions & { executionId?: string }
+
 interface MCPContextType {
   state: MCPState
   actions: {
     addServer: (server: Omit<MCPServer, 'id'>) => Promise<void>
+    updateServer: (id: string, updates: Partial<Omit<MCPServer, 'id' | 'status' | 'tools'>>) => Promise<void>
+    setRoots: (id: string, roots: Root[]) => Promise<void>
     removeServer: (id: string) => Promise<void>
+    importServers: (json: string) => Promise<ImportResult>
+    exportServers: (includeSecrets?: boolean) => MCPServersConfig
     connectToServer: (id: string) => Promise<boolean>
     disconnectFromServer: (id: string) => Promise<void>
+    signOut: (id: string) => Promise<void>
     fetchServerTools: (id: string) => Promise<void>
-    callTool: (serverId: string, toolName: string, args: Record<string, any>) => Promise<any>
+    acknowledgeToolChanges: (id: string) => void
+    callTool: (serverId: string, toolName: string, args: Record<string, any>, options?: CallToolOptions) => Promise<CallToolResult>
+    removeExecution: (id: string) => void
+    clearHistory: () => void
     clearNotifications: (serverId?: string) => void
+    getServerDetails: (serverId: string) => ServerDetails | null
+    supportsLogging: (serverId: string) => boolean
+    setLoggingLevel: (serverId: string, level: LoggingLevel) => Promise<void>
+    clearTraffic: (serverId?: string) => void
+    removeModelContext: (id: string) => void
     getUiResource: (serverId: string, uri: string) => Promise<UiResourceData>
+    listResources: (serverId: string) => Promise<Resource[]>
+    listResourceTemplates: (serverId: string) => Promise<ResourceTemplate[]>
+    readResource: (serverId: string, uri: string) => Promise<ReadResourceResult>
+    canSubscribe: (serverId: string) => boolean
+    subscribeResource: (serverId: string, uri: string) => Promise<void>
+    unsubscribeResource: (serverId: string, uri: string) => Promise<void>
+    listPrompts: (serverId: string) => Promise<Prompt[]>
+    getPrompt: (serverId: string, name: string, args: Record<string, string>) => Promise<GetPromptResult>
+    complete: (
+      serverId: string,
+      ref: CompleteRequest['params']['ref'],
+      argument: { name: string; value: string },
+      context?: Record<string, string>
+    ) => Promise<string[]>
   }
 }
 
 const MCPContext = createContext<MCPContextType | undefined>(undefined)
 
 export function MCPProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(mcpReducer, initialState)
+  const [state, dispatch] = useReducer(mcpReducer, initialState, initState)
+
+  useEffect(() => {
+    saveServers(state.servers)
+  }, [state.servers])
+
+  useEffect(() => {
+    saveHistory(state.history)
+  }, [state.history])
+
+  // Health checks run while a server is connected
+  useEffect(() => {
+    healthMonitor.sync(state.servers.filter(isServerConnected))
+  }, [state.servers])
 
   useEffect(() => {
     // Set up global notification listeners
-    const unsubscribeNotification = mcpClient.onNotification((serverId, notification) => {
-      dispatch({ type: 'ADD_NOTIFICATION', payload: { serverId, message: notification } })
+    const unsubscribeNotification = mcpClient.onNotification((serverId, notification, source) => {
+      dispatch({ type: 'ADD_NOTIFICATION', payload: { serverId, message: notification, source } })
+    })
+
+    const unsubscribeHealth = healthMonitor.onSample((serverId, sample) => {
+      dispatch({ type: 'RECORD_HEALTH', payload: { serverId, sample } })
+    })
+
+    const unsubscribeTraffic = mcpClient.onTraffic((entry) => {
+      dispatch({ type: 'ADD_TRAFFIC', payload: entry })
+    })
+
+    const unsubscribeModelContext = mcpClient.onModelContext((context) => {
+      dispatch({ type: 'SET_MODEL_CONTEXT', payload: context })
     })
 
     const unsubscribeProgress = mcpClient.onProgress((serverId, progress) => {
       dispatch({ type: 'ADD_PROGRESS', payload: { serverId, data: progress } })
     })
 
+    const unsubscribeStatus = mcpClient.onStatusChange((serverId, status) => {
+      dispatch({ type: 'SET_SERVER_STATUS', payload: { id: serverId, status } })
+      if (status === 'connected') {
+        // A reconnect may have started a new session, refresh what it offers
+        mcpClient.listTools(serverId)
+          .then(tools => dispatch({ type: 'SET_SERVER_TOOLS', payload: { id: serverId, tools } }))
+          .catch(error => console.error('Failed to fetch server tools:', error))
+      } else if (status === 'disconnected') {
+        dispatch({ type: 'SET_SERVER_TOOLS', payload: { id: serverId, tools: [] } })
+      }
+    })
+
+    const unsubscribeResourceUpdated = mcpClient.onResourceUpdated((serverId, uri) => {
+      dispatch({ type: 'RESOURCE_UPDATED', payload: { serverId, uri } })
+    })
+
+    const unsubscribeListChanged = mcpClient.onListChanged((serverId, list) => {
+      dispatch({ type: 'LIST_CHANGED', payload: { serverId, list } })
+      if (list === 'tools') {
+        mcpClient.listTools(serverId)
+          .then(tools => dispatch({ type: 'TOOLS_CHANGED', payload: { id: serverId, tools } }))
+          .catch(error => console.error('Failed to refresh server tools:', error))
+      }
+    })
+
     return () => {
+      unsubscribeListChanged()
       unsubscribeNotification()
+      unsubscribeTraffic()
+      unsubscribeModelContext()
+      unsubscribeHealth()
+      healthMonitor.stop()
       unsubscribeProgress()
+      unsubscribeStatus()
+      unsubscribeResourceUpdated()
     }
   }, [])
 
+  // Takes the server itself so callers can connect with settings not yet in state
+  const connect = async (server: MCPServer): Promise<boolean> => {
+    const { id } = server
+    dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'connecting' } })
+
+    try {
+      const connected = await mcpClient.connectToServer(server)
+      if (connected) {
+        dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'connected' } })
+        await actions.fetchServerTools(id)
+      } else {
+        dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'disconnected' } })
+      }
+      return connected
+    } catch (error) {
+      dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'disconnected' } })
+      throw error
+    }
+  }
+
   const actions = {
     addServer: async (serverData: Omit<MCPServer, 'id'>) => {
       const newServer: MCPServer = {
@@ -164,30 +513,61 @@ export function MCPProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'ADD_SERVER', payload: newServer })
     },
 
+    updateServer: async (id: string, updates: Partial<Omit<MCPServer, 'id' | 'status' | 'tools'>>) => {
+      const server = state.servers.find(s => s.id === id)
+      if (!server) return
+
+      dispatch({ type: 'UPDATE_SERVER', payload: { id, updates } })
+
+      // Connection settings only apply to new connections
+      if (server.status !== 'disconnected') {
+        await actions.disconnectFromServer(id)
+        await connect({ ...server, ...updates })
+      }
+    },
+
+    // Unlike other settings, roots apply to the live session
+    setRoots: async (id: string, roots: Root[]) => {
+      const server = state.servers.find(s => s.id === id)
+      if (!server) return
+
+      dispatch({ type: 'UPDATE_SERVER', payload: { id, updates: { roots } } })
+      await mcpClient.setRoots(id, roots)
+    },
+
     removeServer: async (id: string) => {
       await mcpClient.disconnectFromServer(id)
       dispatch({ type: 'REMOVE_SERVER', payload: id })
     },
 
+    importServers: async (json: string): Promise<ImportResult> => {
+      const result = importServersConfig(json)
+      const replaced = state.servers.filter(server =>
+        result.servers.some(imported => imported.name === server.name)
+      )
+      await Promise.all(replaced.map(server => mcpClient.disconnectFromServer(server.id)))
+
+      const timestamp = Date.now()
+      dispatch({
+        type: 'IMPORT_SERVERS',
+        payload: result.servers.map((server, index) => ({
+          ...server,
+          id: `${timestamp}-${index}`,
+          status: 'disconnected' as const
+        }))
+      })
+      return result
+    },
+
+    exportServers: (includeSecrets?: boolean): MCPServersConfig => {
+      return exportServersConfig(state.servers, includeSecrets)
+    },
+
     connectToServer: async (id: string): Promise<boolean> => {
       const server = state.servers.find(s => s.id === id)
       if (!server) return false
 
-      dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'connecting' } })
-
-      try {
-        const connected = await mcpClient.connectToServer(server)
-        if (connected) {
-          dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'connected' } })
-          await actions.fetchServerTools(id)
-        } else {
-          dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'disconnected' } })
-        }
-        return connected
-      } catch (error) {
-        dispatch({ type: 'SET_SERVER_STATUS', payload: { id, status: 'disconnected' } })
-        throw error
-      }
+      return await connect(server)
     },
 
     disconnectFromServer: async (id: string) => {
@@ -196,6 +576,12 @@ export function MCPProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'SET_SERVER_TOOLS', payload: { id, tools: [] } })
     },
 
+    signOut: async (id: string) => {
+      // Drop the session too, it was authorized with the forgotten token
+      await actions.disconnectFromServer(id)
+      mcpClient.signOut(id)
+    },
+
     fetchServerTools: async (id: string) => {
       try {
         const tools = await mcpClient.listTools(id)
@@ -206,16 +592,117 @@ export function MCPProvider({ children }: { children: ReactNode }) {
       }
     },
 
-    callTool: async (serverId: string, toolName: string, args: Record<string, any>) => {
-      return await mcpClient.callTool(serverId, toolName, args)
+    acknowledgeToolChanges: (id: string) => {
+      dispatch({ type: 'ACKNOWLEDGE_TOOL_CHANGES', payload: id })
+    },
+
+    callTool: async (serverId: string, toolName: string, args: Record<string, any>, options: CallToolOptions = {}) => {
+      const id = options.executionId ?? crypto.randomUUID()
+      dispatch({
+        type: 'RECORD_EXECUTION',
+        payload: { id, serverId, toolName, parameters: args, status: 'running', startedAt: Date.now() }
+      })
+
+      try {
+        const result = await mcpClient.callTool(serverId, toolName, args, options)
+        dispatch({
+          type: 'UPDATE_EXECUTION',
+          payload: { id, updates: { status: result.isError ? 'error' : 'completed', result, finishedAt: Date.now() } }
+        })
+        return result
+      } catch (error) {
+        dispatch({
+          type: 'UPDATE_EXECUTION',
+          payload: {
+            id,
+            updates: {
+              status: options.signal?.aborted ? 'cancelled' : 'error',
+              error: (error as Error).message,
+              finishedAt: Date.now()
+            }
+          }
+        })
+        throw error
+      }
+    },
+
+    removeExecution: (id: string) => {
+      dispatch({ type: 'REMOVE_EXECUTION', payload: id })
+    },
+
+    clearHistory: () => {
+      dispatch({ type: 'CLEAR_HISTORY' })
     },
 
     clearNotifications: (serverId?: string) => {
       dispatch({ type: 'CLEAR_NOTIFICATIONS', payload: serverId })
     },
 
+    getServerDetails: (serverId: string) => {
+      return mcpClient.getServerDetails(serverId)
+    },
+
+    supportsLogging: (serverId: string) => {
+      return mcpClient.supportsLogging(serverId)
+    },
+
+    setLoggingLevel: async (serverId: string, level: LoggingLevel) => {
+      await mcpClient.setLoggingLevel(serverId, level)
+      dispatch({ type: 'SET_LOG_LEVEL', payload: { serverId, level } })
+    },
+
+    clearTraffic: (serverId?: string) => {
+      dispatch({ type: 'CLEAR_TRAFFIC', payload: serverId })
+    },
+
+    // The app's state no longer informs model turns
+    removeModelContext: (id: string) => {
+      dispatch({ type: 'REMOVE_MODEL_CONTEXT', payload: id })
+    },
+
     getUiResource: async (serverId: string, uri: string): Promise<UiResourceData> => {
       return await mcpClient.getUiResource(serverId, uri)
+    },
+
+    listResources: async (serverId: string): Promise<Resource[]> => {
+      return await mcpClient.listResources(serverId)
+    },
+
+    listResourceTemplates: async (serverId: string): Promise<ResourceTemplate[]> => {
+      return await mcpClient.listResourceTemplates(serverId)
+    },
+
+    readResource: async (serverId: string, uri: string): Promise<ReadResourceResult> => {
+      return await mcpClient.readResource(serverId, uri)
+    },
+
+    canSubscribe: (serverId: string): boolean => {
+      return mcpClient.canSubscribe(serverId)
+    },
+
+    subscribeResource: async (serverId: string, uri: string) => {
+      await mcpClient.subscribeResource(serverId, uri)
+    },
+
+    unsubscribeResource: async (serverId: string, uri: string) => {
+      await mcpClient.unsubscribeResource(serverId, uri)
+    },
+
+    listPrompts: async (serverId: string): Promise<Prompt[]> => {
+      return await mcpClient.listPrompts(serverId)
+    },
+
+    getPrompt: async (serverId: string, name: string, args: Record<string, string>): Promise<GetPromptResult> => {
+      return await mcpClient.getPrompt(serverId, name, args)
+    },
+
+    complete: async (
+      serverId: string,
+      ref: CompleteRequest['params']['ref'],
+      argument: { name: string; value: string },
+      context?: Record<string, string>
+    ): Promise<string[]> => {
+      return await mcpClient.complete(serverId, ref, argument, context)
     }
   }
 
@@ -0,0 +1,121 @@
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+import { createContext, useContext, useReducer, useEffect, useRef } from 'react'
+import type { ReactNode } from 'react'
+import { mcpClient } from '../services/mcpClient'
+
+/**
+ * A sampling/createMessage request waiting for the user
+ */
+export interface SamplingRequest {
+  id: string
+  serverId: string
+  params: CreateMessageRequest['params']
+  receivedAt: number
+}
+
+interface SamplingState {
+  // Oldest first, the dialog shows the first one
+  requests: SamplingRequest[]
+}
+
+type SamplingAction =
+  | { type: 'ADD_REQUEST'; payload: SamplingRequest }
+  | { type: 'REMOVE_REQUEST'; payload: string }
+
+interface PendingRequest {
+  resolve: (result: CreateMessageResult) => void
+  reject: (reason: unknown) => void
+}
+
+// Error code the spec uses for a sampling request the user declined
+const USER_REJECTED = -1
+
+const initialState: SamplingState = {
+  requests: []
+}
+
+function samplingReducer(state: SamplingState, action: SamplingAction): SamplingState {
+  switch (action.type) {
+    case 'ADD_REQUEST':
+      return { requests: [...state.requests, action.payload] }
+
+    case 'REMOVE_REQUEST':
+      return { requests: state.requests.filter(request => request.id !== action.payload) }
+
+    default:
+      return state
+  }
+}
+
+interface SamplingContextType {
+  state: SamplingState
+  actions: {
+    approve: (id: string, result: CreateMessageResult) => void
+    reject: (id: string) => void
+  }
+}
+
+const SamplingContext = createContext<SamplingContextType | undefined>(undefined)
+
+export function SamplingProvider({ children }: { children: ReactNode }) {
+  const [state, dispatch] = useReducer(samplingReducer, initialState)
+  // Promises the servers' requests are waiting on, by request id
+  const pendingRef = useRef<Map<string, PendingRequest>>(new Map())
+
+  useEffect(() => {
+    const pending = pendingRef.current
+
+    mcpClient.setSamplingHandler((serverId, params, signal) => new Promise((resolve, reject) => {
+      const id = crypto.randomUUID()
+      pending.set(id, { resolve, reject })
+      dispatch({ type: 'ADD_REQUEST', payload: { id, serverId, params, receivedAt: Date.now() } })
+
+      // The server gave up on the request
+      signal.addEventListener('abort', () => {
+        if (pending.delete(id)) {
+          dispatch({ type: 'REMOVE_REQUEST', payload: id })
+          reject(signal.reason)
+        }
+      })
+    }))
+
+    return () => {
+      mcpClient.setSamplingHandler(undefined)
+      pending.forEach(({ reject }) => reject(new Error('Sampling is no longer available')))
+      pending.clear()
+    }
+  }, [])
+
+  const settle = (id: string, settleRequest: (request: PendingRequest) => void) => {
+    const request = pendingRef.current.get(id)
+    if (!request) return
+    pendingRef.current.delete(id)
+    dispatch({ type: 'REMOVE_REQUEST', payload: id })
+    settleRequest(request)
+  }
+
+  const actions: SamplingContextType['actions'] = {
+    approve: (id: string, result: CreateMessageResult) => {
+      settle(id, ({ resolve }) => resolve(result))
+    },
+
+    reject: (id: string) => {
+      settle(id, ({ reject }) => reject(new McpError(USER_REJECTED, 'User rejected sampling request')))
+    }
+  }
+
+  return (
+    <SamplingContext.Provider value={{ state, actions }}>
+      {children}
+    </SamplingContext.Provider>
+  )
+}
+
+export function useSampling() {
+  const context = useContext(SamplingContext)
+  if (context === undefined) {
+    throw new Error('useSampling must be used within a SamplingProvider')
+  }
+  return context
+}
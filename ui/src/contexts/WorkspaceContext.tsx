@@ -0,0 +1,180 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { createContext, useContext, useReducer } from 'react'
+import type { ReactNode } from 'react'
+
+/**
+ * A tool window in the workspace. Windows stay mounted while minimized, so
+ * running calls and their app iframes survive.
+ */
+export interface WorkspaceWindow {
+  id: string
+  serverId: string
+  // The tool as listed when the window was opened
+  tool: Tool
+  x: number
+  y: number
+  width: number
+  height: number
+  minimized: boolean
+  // Stacking order, the highest is in front
+  zIndex: number
+}
+
+interface WorkspaceState {
+  windows: WorkspaceWindow[]
+  activeId: string | null
+}
+
+type WorkspaceAction =
+  | { type: 'OPEN_WINDOW'; payload: { serverId: string; tool: Tool; newWindow: boolean } }
+  | { type: 'CLOSE_WINDOW'; payload: string }
+  | { type: 'FOCUS_WINDOW'; payload: string }
+  | { type: 'MINIMIZE_WINDOW'; payload: string }
+  | { type: 'MOVE_WINDOW'; payload: { id: string; dx: number; dy: number } }
+  | { type: 'RESIZE_WINDOW'; payload: { id: string; dx: number; dy: number } }
+
+// Offset between windows opened one after another
+const CASCADE_STEP = 32
+const DEFAULT_SIZE = { width: 640, height: 560 }
+const MIN_WINDOW_SIZE = { width: 360, height: 240 }
+
+const initialState: WorkspaceState = {
+  windows: [],
+  activeId: null
+}
+
+const topZIndex = (windows: WorkspaceWindow[]) =>
+  windows.reduce((top, toolWindow) => Math.max(top, toolWindow.zIndex), 0)
+
+function updateWindow(state: WorkspaceState, id: string, update: (toolWindow: WorkspaceWindow) => Partial<WorkspaceWindow>): WorkspaceState {
+  return {
+    ...state,
+    windows: state.windows.map(toolWindow => (toolWindow.id === id ? { ...toolWindow, ...update(toolWindow) } : toolWindow))
+  }
+}
+
+// Bring a window to the front, restoring it if minimized
+function focusWindow(state: WorkspaceState, id: string): WorkspaceState {
+  const zIndex = topZIndex(state.windows) + 1
+  return { ...updateWindow(state, id, () => ({ minimized: false, zIndex })), activeId: id }
+}
+
+function workspaceReducer(state: WorkspaceState, action: WorkspaceAction): WorkspaceState {
+  switch (action.type) {
+    case 'OPEN_WINDOW': {
+      const { serverId, tool, newWindow } = action.payload
+      // Opening a tool again brings its window forward, unless a new window
+      // is asked for to run it side by side
+      const existing = state.windows.find(toolWindow => toolWindow.serverId === serverId && toolWindow.tool.name === tool.name)
+      if (existing && !newWindow) {
+        return focusWindow(state, existing.id)
+      }
+
+      const offset = (state.windows.length % 8) * CASCADE_STEP
+      const toolWindow: WorkspaceWindow = {
+        id: crypto.randomUUID(),
+        serverId,
+        tool,
+        x: 80 + offset,
+        y: 90 + offset,
+        ...DEFAULT_SIZE,
+        minimized: false,
+        zIndex: topZIndex(state.windows) + 1
+      }
+      // Appended rather than reordered, moving an iframe in the DOM reloads it
+      return { windows: [...state.windows, toolWindow], activeId: toolWindow.id }
+    }
+
+    case 'CLOSE_WINDOW':
+      return {
+        windows: state.windows.filter(toolWindow => toolWindow.id !== action.payload),
+        activeId: state.activeId === action.payload ? null : state.activeId
+      }
+
+    case 'FOCUS_WINDOW':
+      return focusWindow(state, action.payload)
+
+    case 'MINIMIZE_WINDOW':
+      return {
+        ...updateWindow(state, action.payload, () => ({ minimized: true })),
+        activeId: state.activeId === action.payload ? null : state.activeId
+      }
+
+    case 'MOVE_WINDOW': {
+      const { id, dx, dy } = action.payload
+      return updateWindow(state, id, toolWindow => ({
+        x: Math.max(0, toolWindow.x + dx),
+        y: Math.max(0, toolWindow.y + dy)
+      }))
+    }
+
+    case 'RESIZE_WINDOW': {
+      const { id, dx, dy } = action.payload
+      return updateWindow(state, id, toolWindow => ({
+        width: Math.max(MIN_WINDOW_SIZE.width, toolWindow.width + dx),
+        height: Math.max(MIN_WINDOW_SIZE.height, toolWindow.height + dy)
+      }))
+    }
+
+    default:
+      return state
+  }
+}
+
+interface WorkspaceContextType {
+  state: WorkspaceState
+  actions: {
+    openToolWindow: (serverId: string, tool: Tool, newWindow?: boolean) => void
+    closeWindow: (id: string) => void
+    focusWindow: (id: string) => void
+    minimizeWindow: (id: string) => void
+    moveWindow: (id: string, dx: number, dy: number) => void
+    resizeWindow: (id: string, dx: number, dy: number) => void
+  }
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined)
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const [state, dispatch] = useReducer(workspaceReducer, initialState)
+
+  const actions: WorkspaceContextType['actions'] = {
+    openToolWindow: (serverId: string, tool: Tool, newWindow = false) => {
+      dispatch({ type: 'OPEN_WINDOW', payload: { serverId, tool, newWindow } })
+    },
+
+    closeWindow: (id: string) => {
+      dispatch({ type: 'CLOSE_WINDOW', payload: id })
+    },
+
+    focusWindow: (id: string) => {
+      dispatch({ type: 'FOCUS_WINDOW', payload: id })
+    },
+
+    minimizeWindow: (id: string) => {
+      dispatch({ type: 'MINIMIZE_WINDOW', payload: id })
+    },
+
+    moveWindow: (id: string, dx: number, dy: number) => {
+      dispatch({ type: 'MOVE_WINDOW', payload: { id, dx, dy } })
+    },
+
+    resizeWindow: (id: string, dx: number, dy: number) => {
+      dispatch({ type: 'RESIZE_WINDOW', payload: { id, dx, dy } })
+    }
+  }
+
+  return (
+    <WorkspaceContext.Provider value={{ state, actions }}>
+      {children}
+    </WorkspaceContext.Provider>
+  )
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider')
+  }
+  return context
+}
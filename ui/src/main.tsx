@@ -8,15 +8,36 @@ import '@mantine/notifications/styles.css'
 import './index.css'
 import App from './App.tsx'
 import { MCPProvider } from './contexts/MCPContext'
+import { WorkspaceProvider } from './contexts/WorkspaceContext'
+import { SamplingProvider } from './contexts/SamplingContext'
+import { ElicitationProvider } from './contexts/ElicitationContext'
+import { ConversationProvider } from './contexts/ConversationContext'
+import { OAuthCallback } from './components/OAuthCallback'
+import { OAUTH_CALLBACK_PATH } from './services/oauthProvider'
+
+// The OAuth popup lands on the callback path, it only relays the result
+const isOAuthCallback = window.location.pathname === OAUTH_CALLBACK_PATH
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <MantineProvider>
       <ModalsProvider>
         <Notifications />
-        <MCPProvider>
-          <App />
-        </MCPProvider>
+        {isOAuthCallback ? (
+          <OAuthCallback />
+        ) : (
+          <MCPProvider>
+            <SamplingProvider>
+              <ElicitationProvider>
+                <ConversationProvider>
+                  <WorkspaceProvider>
+                    <App />
+                  </WorkspaceProvider>
+                </ConversationProvider>
+              </ElicitationProvider>
+            </SamplingProvider>
+          </MCPProvider>
+        )}
       </ModalsProvider>
     </MantineProvider>
   </StrictMode>,
@@ -0,0 +1,99 @@
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPServer, ToolExecution } from '../types/mcp'
+import { getServerUrl } from './serverRegistry'
+
+// localStorage key holding the persisted tool call history
+const STORAGE_KEY = 'mcpos.history'
+
+// Oldest runs are dropped beyond this
+export const MAX_HISTORY = 100
+
+/**
+ * Execution fields that only matter while the call is on screen
+ */
+type TransientExecutionFields = 'progress' | 'isStreaming' | 'output'
+
+function toStoredExecution(execution: ToolExecution): Omit<ToolExecution, TransientExecutionFields> {
+  const stored: Partial<ToolExecution> = { ...execution }
+  delete stored.progress
+  delete stored.isStreaming
+  delete stored.output
+  return stored as ToolExecution
+}
+
+/**
+ * Load the persisted history, newest first
+ */
+export function loadHistory(): ToolExecution[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+
+    const stored = JSON.parse(raw) as ToolExecution[]
+    if (!Array.isArray(stored)) return []
+
+    // Calls still running when the page went away never got their result
+    return stored.map(execution => execution.status === 'running'
+      ? { ...execution, status: 'error' as const, error: 'Interrupted by a page reload' }
+      : execution)
+  } catch (error) {
+    console.error('Failed to load history from storage:', error)
+    return []
+  }
+}
+
+export function saveHistory(history: ToolExecution[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history.map(toStoredExecution)))
+  } catch (error) {
+    // Most likely over quota, e.g. results with large images
+    console.error('Failed to save history to storage:', error)
+  }
+}
+
+/**
+ * A run as a `.http` file in the format of rest/mcp.http: initialize,
+ * notifications/initialized, then the tools/call itself. The server's headers
+ * may hold credentials, so their values are `{{name}}` variables unless
+ * `includeSecrets` is set.
+ */
+export function toHttpSnippet(server: MCPServer, execution: ToolExecution, includeSecrets = false): string {
+  const url = getServerUrl(server)
+  const headers = [
+    'Content-Type: application/json',
+    'Accept: application/json, text/event-stream',
+    ...Object.entries(server.headers ?? {}).map(([name, value]) => `${name}: ${includeSecrets ? value : `{{${name}}}`}`)
+  ]
+  const sessionHeaders = [...headers, 'mcp-session-id: <mcp-session-id>']
+
+  const request = (title: string, requestHeaders: string[], body: unknown) => [
+    `### ${title}`,
+    `POST ${url}`,
+    ...requestHeaders,
+    '',
+    JSON.stringify(body, null, 2)
+  ].join('\n')
+
+  return [
+    request('initialize', headers, {
+      jsonrpc: '2.0',
+      id: 'init-1',
+      method: 'initialize',
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: `mcp-client-for-${server.name}`, version: '1.0.0' }
+      }
+    }),
+    request('notifications/initialized, get mcp-session-id from "initialize" response header', sessionHeaders, {
+      jsonrpc: '2.0',
+      method: 'notifications/initialized'
+    }),
+    request(`tools/call ${execution.toolName}`, sessionHeaders, {
+      jsonrpc: '2.0',
+      id: 'call-1',
+      method: 'tools/call',
+      params: { name: execution.toolName, arguments: execution.parameters }
+    })
+  ].join('\n\n') + '\n'
+}
@@ -0,0 +1,143 @@
+import type { MCPServer, HealthSample } from '../types/mcp'
+import { mcpClient } from './mcpClient'
+
+/**
+ * How often connected servers are checked, and when they count as unhealthy
+ */
+export const HEALTH_POLICY = {
+  interval: 10000,
+  timeout: 5000,
+  // Consecutive failed checks before a server is marked unhealthy
+  missedPings: 3,
+  // Samples kept per server for the latency history
+  historySize: 60,
+}
+
+export interface HealthSummary {
+  p50?: number
+  p95?: number
+  p99?: number
+  // Share of healthy checks, from 0 to 1
+  uptime: number
+}
+
+export function isHealthy(sample: HealthSample): boolean {
+  return sample.latency !== undefined && sample.probe !== false
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+export function summarizeHealth(samples: HealthSample[]): HealthSummary {
+  const latencies = samples
+    .map(sample => sample.latency)
+    .filter((latency): latency is number => latency !== undefined)
+    .sort((a, b) => a - b)
+
+  return {
+    p50: percentile(latencies, 50),
+    p95: percentile(latencies, 95),
+    p99: percentile(latencies, 99),
+    uptime: samples.length > 0 ? samples.filter(isHealthy).length / samples.length : 1
+  }
+}
+
+async function probe(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(HEALTH_POLICY.timeout) })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+interface WatchedServer {
+  server: MCPServer
+  timer: ReturnType<typeof setInterval>
+}
+
+/**
+ * Pings connected servers on an interval, probing their health endpoint
+ * alongside, and reports each check as a sample
+ */
+export class HealthMonitor {
+  private watched: Map<string, WatchedServer> = new Map()
+
+  /**
+   * Check exactly the given servers, stopping the checks of any other
+   */
+  sync(servers: MCPServer[]) {
+    const ids = new Set(servers.map(server => server.id))
+    Array.from(this.watched.keys())
+      .filter(serverId => !ids.has(serverId))
+      .forEach(serverId => this.unwatch(serverId))
+    servers.forEach(server => this.watch(server))
+  }
+
+  /**
+   * Start checking a server, or pick up its new settings if already watched
+   */
+  watch(server: MCPServer) {
+    const watched = this.watched.get(server.id)
+    if (watched) {
+      watched.server = server
+      return
+    }
+
+    const timer = setInterval(() => this.check(server.id), HEALTH_POLICY.interval)
+    this.watched.set(server.id, { server, timer })
+    this.check(server.id)
+  }
+
+  unwatch(serverId: string) {
+    const watched = this.watched.get(serverId)
+    if (watched) {
+      clearInterval(watched.timer)
+      this.watched.delete(serverId)
+    }
+  }
+
+  stop() {
+    Array.from(this.watched.keys()).forEach(serverId => this.unwatch(serverId))
+  }
+
+  private async check(serverId: string) {
+    const watched = this.watched.get(serverId)
+    if (!watched) return
+
+    const { healthUrl } = watched.server
+    const startedAt = performance.now()
+    const [latency, probed] = await Promise.all([
+      mcpClient.ping(serverId, HEALTH_POLICY.timeout).then(
+        () => Math.round(performance.now() - startedAt),
+        () => undefined
+      ),
+      healthUrl ? probe(healthUrl) : Promise.resolve(undefined)
+    ])
+
+    // Disconnected while the check was in flight
+    if (!this.watched.has(serverId)) return
+    this.emitSample(serverId, { timestamp: Date.now(), latency, probe: probed })
+  }
+
+  private emitSample(serverId: string, sample: HealthSample) {
+    const event = new CustomEvent('mcp-health', {
+      detail: { serverId, sample }
+    })
+    window.dispatchEvent(event)
+  }
+
+  onSample(callback: (serverId: string, sample: HealthSample) => void) {
+    const handler = (event: CustomEvent) => {
+      callback(event.detail.serverId, event.detail.sample)
+    }
+    window.addEventListener('mcp-health', handler as EventListener)
+    return () => window.removeEventListener('mcp-health', handler as EventListener)
+  }
+}
+
+// Singleton instance
+export const healthMonitor = new HealthMonitor()
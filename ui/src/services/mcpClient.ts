@@ -1,8 +1,55 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
-import { type Tool, LoggingMessageNotificationSchema, ProgressNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  type Tool,
+  type Resource,
+  type ResourceTemplate,
+  type ReadResourceResult,
+  type Prompt,
+  type GetPromptResult,
+  type CompleteRequest,
+  type CallToolResult,
+  type Progress,
+  type LoggingLevel,
+  type LoggingMessageNotification,
+  type JSONRPCMessage,
+  type Implementation,
+  type ServerCapabilities,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+  type ElicitRequestFormParams,
+  type ElicitResult,
+  type Root,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  McpError,
+  ErrorCode,
+  CallToolResultSchema,
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  PromptListChangedNotificationSchema
+} from "@modelcontextprotocol/sdk/types.js"
 import { RESOURCE_MIME_TYPE } from "@modelcontextprotocol/ext-apps/app-bridge";
-import type { MCPServer } from '../types/mcp'
+import type { MCPServer, LogEntry, TrafficEntry, TrafficDirection, ConversationTurn, ModelContext } from '../types/mcp'
+import { getServerUrl } from './serverRegistry'
+import { BrowserOAuthClientProvider } from './oauthProvider'
+import { RecordingTransport } from './recordingTransport'
+
+// Lists a server can report as changed with notifications/<list>/list_changed
+export type MCPListKind = 'tools' | 'resources' | 'prompts'
+
+export interface ToolCallOptions {
+  // Aborting sends notifications/cancelled for the call
+  signal?: AbortSignal
+  // notifications/progress for this call, matched by its progress token
+  onprogress?: (progress: Progress) => void
+}
 
 export interface UiResourceData {
   html: string;
@@ -12,8 +59,111 @@ export interface UiResourceData {
   };
 }
 
+/**
+ * What a server reported about itself when the session was initialized
+ */
+export interface ServerDetails {
+  // Name, version, title, icons and website of the server
+  implementation?: Implementation
+  protocolVersion?: string
+  capabilities?: ServerCapabilities
+  instructions?: string
+  sessionId?: string
+}
+
+/**
+ * Answers a server's sampling/createMessage request, usually by asking the
+ * user to approve a response. The signal aborts when the server cancels.
+ */
+export type SamplingHandler = (
+  serverId: string,
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal
+) => Promise<CreateMessageResult>
+
+/**
+ * Answers a server's elicitation/create request with what the user filled in,
+ * or with their decline or cancel
+ */
+export type ElicitationHandler = (
+  serverId: string,
+  params: ElicitRequestFormParams,
+  signal: AbortSignal
+) => Promise<ElicitResult>
+
+export type CompletionRef = CompleteRequest['params']['ref']
+
+/**
+ * Tool _meta key pointing tool arguments at the prompt or resource template
+ * that completes them, as completion/complete has no reference for tools:
+ * `{ "mcpos/completions": { "<argument>": { "type": "ref/prompt", "name": "<prompt>" } } }`
+ */
+export const COMPLETIONS_META_KEY = 'mcpos/completions'
+
+/**
+ * Completion references of a tool's arguments, by argument name
+ */
+export function getToolCompletionRefs(tool: Tool): Record<string, CompletionRef> {
+  const refs = tool._meta?.[COMPLETIONS_META_KEY]
+  return refs && typeof refs === 'object' ? refs as Record<string, CompletionRef> : {}
+}
+
+/**
+ * Takes a message an MCP App sent as a user turn and resolves to whether the
+ * user accepted it. The signal aborts when the app stops waiting.
+ */
+export type AppMessageHandler = (
+  message: Pick<ConversationTurn, 'serverId' | 'toolName' | 'executionId' | 'content'>,
+  signal: AbortSignal
+) => Promise<boolean>
+
+// Local bridge that spawns stdio servers and serves them over Streamable HTTP (apps/bridge)
+const STDIO_BRIDGE_URL = 'http://localhost:8090/mcp'
+// Header carrying the environment of a stdio server, URI-encoded JSON
+const STDIO_BRIDGE_ENV_HEADER = 'mcpos-env'
+
+/**
+ * Exponential backoff used when a connected server stops responding
+ */
+export const RECONNECT_POLICY = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  growFactor: 2,
+  maxRetries: 8,
+}
+
+// Used by the Streamable HTTP transport itself to re-open dropped SSE streams
+const STREAM_RECONNECTION_OPTIONS = {
+  initialReconnectionDelay: RECONNECT_POLICY.initialDelay,
+  maxReconnectionDelay: RECONNECT_POLICY.maxDelay,
+  reconnectionDelayGrowFactor: RECONNECT_POLICY.growFactor,
+  maxRetries: 2,
+}
+
+// Timeout for the ping used to tell a dead connection from a recoverable error
+const LIVENESS_TIMEOUT = 5000
+
+interface ClientInfo {
+  client: Client
+  // The unwrapped transport, the client is connected through a RecordingTransport
+  transport: Transport
+  server: MCPServer
+  // Resource URIs subscribed to, renewed when a reconnect starts a new session
+  subscriptions: Set<string>
+  // Set while the user is disconnecting, suppresses reconnection
+  closing?: boolean
+  // Resolves to whether the connection is usable again
+  reconnecting?: Promise<boolean>
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
 export class MCPClientService {
-  private clients: Map<string, { client: Client; transport: StreamableHTTPClientTransport }> = new Map()
+  private clients: Map<string, ClientInfo> = new Map()
+  private authProviders: Map<string, BrowserOAuthClientProvider> = new Map()
+  private samplingHandler?: SamplingHandler
+  private elicitationHandler?: ElicitationHandler
+  private appMessageHandler?: AppMessageHandler
 
   async connectToServer(server: MCPServer): Promise<boolean> {
     try {
@@ -22,30 +172,64 @@ export class MCPClientService {
           name: `mcp-client-for-${server.name}`,
           version: '1.0.0',
         },
+        {
+          // Only form elicitation, URL mode needs a browser flow of its own
+          capabilities: { sampling: {}, elicitation: { form: {} }, roots: { listChanged: true } },
+        },
       )
-      const url = new URL(`http://${server.domain}/mcp`)
-
-      const transport = new StreamableHTTPClientTransport(url)
-      console.log('Transport created:', transport)
-      await client.connect(transport)
-      console.log('Connected to MCP server successfully')
-      console.log('Session ID after connect:', (transport as any)._sessionId)
-
-      this.setUpTransport(server.id, transport)
 
-      // Set up notification handlers AFTER connection is established
+      // Handlers go in before connecting, a server may send requests for the
+      // declared capabilities as soon as initialization is done
       client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
         console.log('Notification received:', notification)
         // You can emit events here for UI components to listen to
         this.emitNotification(server.id, notification)
       })
 
-      client.setNotificationHandler(ProgressNotificationSchema, (notification) => {
-        console.log('Progress notification:', notification)
-        this.emitProgress(server.id, notification)
+      client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+        if (!this.samplingHandler) {
+          throw new McpError(ErrorCode.InternalError, 'Sampling is not available')
+        }
+        return await this.samplingHandler(server.id, request.params, extra.signal)
+      })
+
+      // The SDK rejects URL mode requests, as only forms are declared
+      client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+        const { params } = request
+        if (!this.elicitationHandler || params.mode === 'url') {
+          throw new McpError(ErrorCode.InternalError, 'Elicitation is not available')
+        }
+        return await this.elicitationHandler(server.id, params, extra.signal)
+      })
+
+      // Roots edited since connecting are kept on the client info
+      client.setRequestHandler(ListRootsRequestSchema, () => ({
+        roots: (this.clients.get(server.id)?.server ?? server).roots ?? []
+      }))
+
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        this.emitResourceUpdated(server.id, notification.params.uri)
+      })
+
+      // Handled whether or not the server advertises listChanged, some
+      // servers send these notifications regardless
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+        this.emitListChanged(server.id, 'tools')
+      })
+
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        this.emitListChanged(server.id, 'resources')
+      })
+
+      client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+        this.emitListChanged(server.id, 'prompts')
       })
 
-      this.clients.set(server.id, { client, transport })
+      const transport = await this.connectClient(client, server)
+      console.log('Connected to MCP server successfully')
+      console.log('Session ID after connect:', transport.sessionId)
+
+      this.clients.set(server.id, { client, transport, server, subscriptions: new Set() })
       return true
     } catch (error) {
       console.error('Failed to connect to MCP server:', error)
@@ -53,11 +237,65 @@ export class MCPClientService {
     }
   }
 
+  /**
+   * Set who answers sampling requests, servers get an error while no one does
+   */
+  setSamplingHandler(handler?: SamplingHandler) {
+    this.samplingHandler = handler
+  }
+
+  /**
+   * Set who answers elicitation requests, servers get an error while no one does
+   */
+  setElicitationHandler(handler?: ElicitationHandler) {
+    this.elicitationHandler = handler
+  }
+
+  /**
+   * Set who takes the messages MCP Apps send, apps get an error while no one does
+   */
+  setAppMessageHandler(handler?: AppMessageHandler) {
+    this.appMessageHandler = handler
+  }
+
+  /**
+   * Replace the roots a server sees, and tell it to list them again: right
+   * away when connected, once the connection is back while reconnecting.
+   * Servers that aren't connected read them when they connect.
+   */
+  async setRoots(serverId: string, roots: Root[]): Promise<void> {
+    const clientInfo = this.clients.get(serverId)
+    if (!clientInfo) return
+
+    clientInfo.server = { ...clientInfo.server, roots }
+    if (clientInfo.reconnecting) {
+      clientInfo.reconnecting
+        .then(async (connected) => {
+          if (connected) await clientInfo.client.sendRootsListChanged()
+        })
+        .catch(error => console.log('Failed to send roots/list_changed after reconnecting:', error))
+      return
+    }
+    await clientInfo.client.sendRootsListChanged()
+  }
+
+  /**
+   * Forget the OAuth client registration and tokens stored for a server
+   */
+  signOut(serverId: string): void {
+    this.getAuthProvider(serverId).invalidateCredentials('all')
+  }
+
+  isSignedIn(serverId: string): boolean {
+    return this.getAuthProvider(serverId).hasTokens()
+  }
+
   async disconnectFromServer(serverId: string): Promise<void> {
     const clientInfo = this.clients.get(serverId)
     if (clientInfo) {
-      await clientInfo.client.close()
+      clientInfo.closing = true
       this.clients.delete(serverId)
+      await clientInfo.client.close()
     }
   }
 
@@ -68,33 +306,238 @@ export class MCPClientService {
     }
 
     try {
-      const response = await clientInfo.client.listTools()
-
-      return response.tools || []
+      const tools: Tool[] = []
+      let cursor: string | undefined
+      do {
+        const response = await clientInfo.client.listTools({ cursor })
+        tools.push(...(response.tools || []))
+        cursor = response.nextCursor
+      } while (cursor)
+      return tools
     } catch (error) {
       console.error('Failed to list tools:', error)
       throw error
     }
   }
 
-  async callTool(serverId: string, toolName: string, args: Record<string, any>): Promise<any> {
+  /**
+   * Sent as a plain tools/call request: Client.callTool throws when
+   * structuredContent doesn't match the tool's outputSchema, while the result
+   * viewer shows the content alongside the mismatch
+   */
+  async callTool(serverId: string, toolName: string, args: Record<string, any>, options: ToolCallOptions = {}): Promise<CallToolResult> {
+    const { signal } = options
     const clientInfo = this.clients.get(serverId)
     if (!clientInfo) {
       throw new Error('Not connected to server')
     }
 
+    // Last SSE event id seen on the response stream, used to resume it
+    // with Last-Event-ID if the connection drops mid-call
+    let resumptionToken: string | undefined
+    const onresumptiontoken = (token: string) => {
+      resumptionToken = token
+    }
+    // Passing onprogress makes the SDK send a progress token with the request,
+    // every progress update also restarts the request timeout
+    const onprogress = (progress: Progress) => {
+      options.onprogress?.(progress)
+      this.emitProgress(serverId, { toolName, ...progress })
+    }
+    const request = { method: 'tools/call' as const, params: { name: toolName, arguments: args } }
+
     try {
-      const response = await clientInfo.client.callTool({
-        name: toolName, arguments: args
+      return await clientInfo.client.request(request, CallToolResultSchema, {
+        signal,
+        onprogress,
+        resetTimeoutOnProgress: true,
+        onresumptiontoken
       })
-
-      return response
     } catch (error) {
+      if (!signal?.aborted && resumptionToken && await this.waitForReconnect(serverId)) {
+        console.log('Resuming tool call stream from event:', resumptionToken)
+        return await this.clients.get(serverId)!.client.request(request, CallToolResultSchema, {
+          signal,
+          onprogress,
+          resetTimeoutOnProgress: true,
+          resumptionToken,
+          onresumptiontoken
+        })
+      }
       console.error('Failed to call tool:', error)
       throw error
     }
   }
 
+  async listResources(serverId: string): Promise<Resource[]> {
+    const { client } = this.getClientInfo(serverId)
+    if (!client.getServerCapabilities()?.resources) return []
+
+    const resources: Resource[] = []
+    let cursor: string | undefined
+    do {
+      const response = await client.listResources({ cursor })
+      resources.push(...response.resources)
+      cursor = response.nextCursor
+    } while (cursor)
+    return resources
+  }
+
+  async listResourceTemplates(serverId: string): Promise<ResourceTemplate[]> {
+    const { client } = this.getClientInfo(serverId)
+    if (!client.getServerCapabilities()?.resources) return []
+
+    const templates: ResourceTemplate[] = []
+    let cursor: string | undefined
+    do {
+      const response = await client.listResourceTemplates({ cursor })
+      templates.push(...response.resourceTemplates)
+      cursor = response.nextCursor
+    } while (cursor)
+    return templates
+  }
+
+  async readResource(serverId: string, uri: string): Promise<ReadResourceResult> {
+    return await this.getClientInfo(serverId).client.readResource({ uri })
+  }
+
+  getServerDetails(serverId: string): ServerDetails | null {
+    const clientInfo = this.clients.get(serverId)
+    if (!clientInfo) return null
+
+    const { client, transport } = clientInfo
+    const recorded = client.transport
+    return {
+      implementation: client.getServerVersion(),
+      protocolVersion: recorded instanceof RecordingTransport ? recorded.protocolVersion : undefined,
+      capabilities: client.getServerCapabilities(),
+      instructions: client.getInstructions(),
+      sessionId: transport.sessionId
+    }
+  }
+
+  async ping(serverId: string, timeout: number): Promise<void> {
+    await this.getClientInfo(serverId).client.ping({ timeout })
+  }
+
+  supportsLogging(serverId: string): boolean {
+    const clientInfo = this.clients.get(serverId)
+    return !!clientInfo?.client.getServerCapabilities()?.logging
+  }
+
+  /**
+   * logging/setLevel: the least severe level the server should send
+   */
+  async setLoggingLevel(serverId: string, level: LoggingLevel): Promise<void> {
+    const { client } = this.getClientInfo(serverId)
+    if (!client.getServerCapabilities()?.logging) {
+      throw new Error('Server does not support logging')
+    }
+    await client.setLoggingLevel(level)
+  }
+
+  /**
+   * Merge a log an MCP App of the server sent through its bridge into the
+   * server's log notifications
+   */
+  logFromApp(serverId: string, params: LoggingMessageNotification['params']) {
+    this.emitNotification(serverId, { method: 'notifications/message', params }, 'app')
+  }
+
+  /**
+   * Pass a message an MCP App sent through its bridge to the conversation,
+   * resolving to whether the user accepted it
+   */
+  async messageFromApp(message: Parameters<AppMessageHandler>[0], signal: AbortSignal): Promise<boolean> {
+    if (!this.appMessageHandler) return false
+    return await this.appMessageHandler(message, signal)
+  }
+
+  /**
+   * Store the context an MCP App pushed for the next model turn
+   */
+  updateModelContextFromApp(context: ModelContext) {
+    const event = new CustomEvent('mcp-model-context', {
+      detail: { context }
+    })
+    window.dispatchEvent(event)
+  }
+
+  /**
+   * Report a JSON-RPC message to the protocol inspector, server connections
+   * are recorded by the service itself
+   */
+  recordTraffic(serverId: string, channel: TrafficEntry['channel'], direction: TrafficDirection, message: JSONRPCMessage) {
+    const entry: TrafficEntry = {
+      id: crypto.randomUUID(),
+      serverId,
+      channel,
+      direction,
+      message,
+      timestamp: Date.now()
+    }
+    const event = new CustomEvent('mcp-traffic', {
+      detail: { entry }
+    })
+    window.dispatchEvent(event)
+  }
+
+  canSubscribe(serverId: string): boolean {
+    const clientInfo = this.clients.get(serverId)
+    return clientInfo?.client.getServerCapabilities()?.resources?.subscribe === true
+  }
+
+  async subscribeResource(serverId: string, uri: string): Promise<void> {
+    const clientInfo = this.getClientInfo(serverId)
+    await clientInfo.client.subscribeResource({ uri })
+    clientInfo.subscriptions.add(uri)
+  }
+
+  async unsubscribeResource(serverId: string, uri: string): Promise<void> {
+    const clientInfo = this.getClientInfo(serverId)
+    clientInfo.subscriptions.delete(uri)
+    await clientInfo.client.unsubscribeResource({ uri })
+  }
+
+  async listPrompts(serverId: string): Promise<Prompt[]> {
+    const { client } = this.getClientInfo(serverId)
+    if (!client.getServerCapabilities()?.prompts) return []
+
+    const prompts: Prompt[] = []
+    let cursor: string | undefined
+    do {
+      const response = await client.listPrompts({ cursor })
+      prompts.push(...response.prompts)
+      cursor = response.nextCursor
+    } while (cursor)
+    return prompts
+  }
+
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<GetPromptResult> {
+    return await this.getClientInfo(serverId).client.getPrompt({ name, arguments: args })
+  }
+
+  /**
+   * Suggest values for a prompt or resource template argument. Servers
+   * without the completions capability get no suggestions.
+   */
+  async complete(
+    serverId: string,
+    ref: CompletionRef,
+    argument: { name: string; value: string },
+    context?: Record<string, string>
+  ): Promise<string[]> {
+    const { client } = this.getClientInfo(serverId)
+    if (!client.getServerCapabilities()?.completions) return []
+
+    const response = await client.complete({
+      ref,
+      argument,
+      context: context ? { arguments: context } : undefined
+    })
+    return response.completion.values
+  }
+
   async getUiResource(serverId: string, uri: string): Promise<UiResourceData> {
     console.info("Reading UI resource:", serverId, uri);
     const clientInfo = this.clients.get(serverId)
@@ -137,9 +580,9 @@ export class MCPClientService {
   }
 
   // Event emission methods - you can integrate with a state management system
-  private emitNotification(serverId: string, notification: any) {
+  private emitNotification(serverId: string, notification: any, source: LogEntry['source'] = 'server') {
     const event = new CustomEvent('mcp-notification', {
-      detail: { serverId, notification }
+      detail: { serverId, notification, source }
     })
     window.dispatchEvent(event)
   }
@@ -151,7 +594,111 @@ export class MCPClientService {
     window.dispatchEvent(event)
   }
 
-  private setUpTransport(id: string, transport: StreamableHTTPClientTransport) {
+  private emitResourceUpdated(serverId: string, uri: string) {
+    const event = new CustomEvent('mcp-resource-updated', {
+      detail: { serverId, uri }
+    })
+    window.dispatchEvent(event)
+  }
+
+  private emitListChanged(serverId: string, list: MCPListKind) {
+    const event = new CustomEvent('mcp-list-changed', {
+      detail: { serverId, list }
+    })
+    window.dispatchEvent(event)
+  }
+
+  private emitStatus(serverId: string, status: MCPServer['status']) {
+    const event = new CustomEvent('mcp-status', {
+      detail: { serverId, status }
+    })
+    window.dispatchEvent(event)
+  }
+
+  private getClientInfo(serverId: string): ClientInfo {
+    const clientInfo = this.clients.get(serverId)
+    if (!clientInfo) {
+      throw new Error('Not connected to server')
+    }
+    return clientInfo
+  }
+
+  private getAuthProvider(serverId: string): BrowserOAuthClientProvider {
+    let authProvider = this.authProviders.get(serverId)
+    if (!authProvider) {
+      authProvider = new BrowserOAuthClientProvider(serverId)
+      this.authProviders.set(serverId, authProvider)
+    }
+    return authProvider
+  }
+
+  /**
+   * Connect the client, running the OAuth authorization flow first when the
+   * server answers 401. Returns the transport the client ends up using.
+   */
+  private async connectClient(client: Client, server: MCPServer): Promise<Transport> {
+    // Handlers must be in place before connect() so the client can chain them
+    const transport = this.createTransport(server)
+    this.setUpTransport(server.id, transport)
+    console.log('Transport created:', transport)
+
+    try {
+      await client.connect(this.recording(server.id, transport))
+      return transport
+    } catch (error) {
+      const canAuthorize = transport instanceof StreamableHTTPClientTransport || transport instanceof SSEClientTransport
+      if (!(error instanceof UnauthorizedError) || !canAuthorize) {
+        throw error
+      }
+
+      // The provider has opened the authorization page, finish the flow
+      // with the code it reports back
+      console.log(`${server.name} requires authorization, waiting for sign in`)
+      const code = await this.getAuthProvider(server.id).waitForAuthorizationCode()
+      await transport.finishAuth(code)
+    }
+
+    const authorized = this.createTransport(server)
+    this.setUpTransport(server.id, authorized)
+    await client.connect(this.recording(server.id, authorized))
+    return authorized
+  }
+
+  private createTransport(server: MCPServer, sessionId?: string): Transport {
+    switch (server.transport) {
+      case 'sse':
+        return new SSEClientTransport(new URL(getServerUrl(server)), {
+          authProvider: this.getAuthProvider(server.id),
+          requestInit: { headers: server.headers }
+        })
+
+      case 'stdio': {
+        // The bridge reads the command line from the query of the initialize
+        // request. The environment, which may hold secrets, goes in a header
+        // so that it stays out of URLs and the bridge's logs.
+        const url = new URL(STDIO_BRIDGE_URL)
+        url.searchParams.set('command', server.command ?? '')
+        url.searchParams.set('args', JSON.stringify(server.args ?? []))
+        return new StreamableHTTPClientTransport(url, {
+          sessionId,
+          requestInit: {
+            headers: { [STDIO_BRIDGE_ENV_HEADER]: encodeURIComponent(JSON.stringify(server.env ?? {})) }
+          },
+          reconnectionOptions: STREAM_RECONNECTION_OPTIONS,
+        })
+      }
+
+      default:
+        return new StreamableHTTPClientTransport(new URL(getServerUrl(server)), {
+          sessionId,
+          authProvider: this.getAuthProvider(server.id),
+          requestInit: { headers: server.headers },
+          reconnectionOptions: STREAM_RECONNECTION_OPTIONS,
+        })
+    }
+  }
+
+  private setUpTransport(id: string, transport: Transport) {
     if (!transport) {
       return
     }
@@ -159,16 +706,135 @@ export class MCPClientService {
       console.log("SSE transport closed.")
     }
 
-    transport.onerror = async (error) => {
+    transport.onerror = (error) => {
       console.log("SSE transport error: ", error)
-      await this.disconnectFromServer(id)
+      this.handleTransportError(id, transport)
     }
   }
 
+  private handleTransportError(id: string, transport: Transport) {
+    const clientInfo = this.clients.get(id)
+    if (!clientInfo || clientInfo.transport !== transport || clientInfo.closing || clientInfo.reconnecting) {
+      return
+    }
+
+    // Errors are also reported for recoverable conditions (e.g. a dropped SSE
+    // stream the transport re-opens by itself), so only reconnect once the
+    // server stops answering pings
+    clientInfo.reconnecting = clientInfo.client.ping({ timeout: LIVENESS_TIMEOUT })
+      .then(() => true, () => this.reconnect(clientInfo))
+      .finally(() => {
+        clientInfo.reconnecting = undefined
+      })
+  }
+
+  private getReconnectDelay(attempt: number): number {
+    const { initialDelay, growFactor, maxDelay } = RECONNECT_POLICY
+    return Math.min(initialDelay * Math.pow(growFactor, attempt), maxDelay)
+  }
+
+  private async reconnect(clientInfo: ClientInfo): Promise<boolean> {
+    const { server, transport } = clientInfo
+    const { sessionId } = transport
+    const protocolVersion = transport instanceof StreamableHTTPClientTransport ? transport.protocolVersion : undefined
+
+    for (let attempt = 0; attempt < RECONNECT_POLICY.maxRetries; attempt++) {
+      if (clientInfo.closing) return false
+      this.emitStatus(server.id, 'reconnecting')
+
+      const delay = this.getReconnectDelay(attempt)
+      console.log(`Reconnecting to ${server.name} in ${delay}ms (attempt ${attempt + 1})`)
+      await sleep(delay)
+      if (clientInfo.closing) return false
+
+      try {
+        await this.restoreSession(clientInfo, sessionId, protocolVersion)
+        console.log(`Reconnected to ${server.name}, session:`, clientInfo.transport.sessionId)
+        this.emitStatus(server.id, 'connected')
+        return true
+      } catch (error) {
+        console.log('Reconnect attempt failed:', error)
+      }
+    }
+
+    console.error(`Giving up reconnecting to ${server.name}`)
+    await this.disconnectFromServer(server.id)
+    this.emitStatus(server.id, 'disconnected')
+    return false
+  }
+
+  /**
+   * Swap in a new transport, resuming the previous session when the server
+   * still knows it and falling back to a fresh initialization otherwise
+   */
+  private async restoreSession(clientInfo: ClientInfo, sessionId?: string, protocolVersion?: string) {
+    const { client, server } = clientInfo
+
+    if (sessionId) {
+      const transport = await this.replaceTransport(clientInfo, sessionId)
+      if (!(transport instanceof StreamableHTTPClientTransport)) {
+        throw new Error('Session resumption requires Streamable HTTP')
+      }
+      const recorded = this.recording(server.id, transport)
+      if (protocolVersion) {
+        recorded.setProtocolVersion(protocolVersion)
+      }
+
+      try {
+        // connect() skips initialization when the transport has a session id
+        await client.connect(recorded)
+        await client.ping({ timeout: LIVENESS_TIMEOUT })
+        // No Last-Event-ID is known for the standalone stream, re-open it
+        // so server-initiated notifications keep flowing
+        transport.resumeStream('').catch(error => {
+          console.log('Failed to re-open SSE stream:', error)
+        })
+        return
+      } catch (error) {
+        // 404 means the server dropped the session (e.g. it restarted)
+        if (!(error instanceof StreamableHTTPError && error.code === 404)) {
+          throw error
+        }
+        console.log(`Session ${sessionId} expired on ${server.name}, starting a new one`)
+      }
+    }
+
+    await client.connect(this.recording(server.id, await this.replaceTransport(clientInfo)))
+
+    // Subscriptions belong to the old session
+    await Promise.all(Array.from(clientInfo.subscriptions, uri =>
+      client.subscribeResource({ uri }).catch(error => {
+        console.log(`Failed to renew subscription to ${uri}:`, error)
+      })
+    ))
+  }
+
+  private async replaceTransport(clientInfo: ClientInfo, sessionId?: string): Promise<Transport> {
+    // Closing the client rejects requests still waiting on the old transport;
+    // callTool resumes those that have a resumption token
+    await clientInfo.client.close().catch(() => {})
+
+    const transport = this.createTransport(clientInfo.server, sessionId)
+    this.setUpTransport(clientInfo.server.id, transport)
+    clientInfo.transport = transport
+    return transport
+  }
+
+  private recording(serverId: string, transport: Transport): RecordingTransport {
+    return new RecordingTransport(transport, (direction, message) => {
+      this.recordTraffic(serverId, 'server', direction, message)
+    })
+  }
+
+  private async waitForReconnect(serverId: string): Promise<boolean> {
+    const clientInfo = this.clients.get(serverId)
+    return clientInfo?.reconnecting ? await clientInfo.reconnecting : false
+  }
+
   // Listen to notifications
-  onNotification(callback: (serverId: string, notification: any) => void) {
+  onNotification(callback: (serverId: string, notification: any, source: LogEntry['source']) => void) {
     const handler = (event: CustomEvent) => {
-      callback(event.detail.serverId, event.detail.notification)
+      callback(event.detail.serverId, event.detail.notification, event.detail.source)
     }
     window.addEventListener('mcp-notification', handler as EventListener)
     return () => window.removeEventListener('mcp-notification', handler as EventListener)
@@ -181,6 +847,47 @@ export class MCPClientService {
     window.addEventListener('mcp-progress', handler as EventListener)
     return () => window.removeEventListener('mcp-progress', handler as EventListener)
   }
+
+  onResourceUpdated(callback: (serverId: string, uri: string) => void) {
+    const handler = (event: CustomEvent) => {
+      callback(event.detail.serverId, event.detail.uri)
+    }
+    window.addEventListener('mcp-resource-updated', handler as EventListener)
+    return () => window.removeEventListener('mcp-resource-updated', handler as EventListener)
+  }
+
+  onListChanged(callback: (serverId: string, list: MCPListKind) => void) {
+    const handler = (event: CustomEvent) => {
+      callback(event.detail.serverId, event.detail.list)
+    }
+    window.addEventListener('mcp-list-changed', handler as EventListener)
+    return () => window.removeEventListener('mcp-list-changed', handler as EventListener)
+  }
+
+  onTraffic(callback: (entry: TrafficEntry) => void) {
+    const handler = (event: CustomEvent) => {
+      callback(event.detail.entry)
+    }
+    window.addEventListener('mcp-traffic', handler as EventListener)
+    return () => window.removeEventListener('mcp-traffic', handler as EventListener)
+  }
+
+  onModelContext(callback: (context: ModelContext) => void) {
+    const handler = (event: CustomEvent) => {
+      callback(event.detail.context)
+    }
+    window.addEventListener('mcp-model-context', handler as EventListener)
+    return () => window.removeEventListener('mcp-model-context', handler as EventListener)
+  }
+
+  // Listen to status changes made by the service itself, e.g. while reconnecting
+  onStatusChange(callback: (serverId: string, status: MCPServer['status']) => void) {
+    const handler = (event: CustomEvent) => {
+      callback(event.detail.serverId, event.detail.status)
+    }
+    window.addEventListener('mcp-status', handler as EventListener)
+    return () => window.removeEventListener('mcp-status', handler as EventListener)
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,96 @@
+import type { CreateMessageRequest, CreateMessageResult, SamplingMessage, SamplingMessageContentBlock, ContentBlock } from '@modelcontextprotocol/sdk/types.js'
+import type { ModelContext } from '../types/mcp'
+
+export type CreateMessageParams = CreateMessageRequest['params']
+
+/**
+ * Something that can answer a sampling/createMessage request, e.g. an LLM API
+ */
+export interface ModelProvider {
+  id: string
+  name: string
+  createMessage: (params: CreateMessageParams, signal?: AbortSignal) => Promise<CreateMessageResult>
+}
+
+const providers: Map<string, ModelProvider> = new Map()
+
+/**
+ * Make a provider available in the sampling dialog, replacing any with the
+ * same id
+ */
+export function registerModelProvider(provider: ModelProvider): void {
+  providers.set(provider.id, provider)
+}
+
+export function getModelProviders(): ModelProvider[] {
+  return Array.from(providers.values())
+}
+
+export function getModelProvider(id: string): ModelProvider | undefined {
+  return providers.get(id)
+}
+
+// Media and other non-text blocks only show their type
+const getBlockText = (block: ContentBlock | SamplingMessageContentBlock) =>
+  block.type === 'text' ? block.text : `[${block.type}]`
+
+// Text of a message, whether its content is a single block or a list
+export function getMessageText(message: SamplingMessage): string {
+  const blocks = Array.isArray(message.content) ? message.content : [message.content]
+  return blocks.map(getBlockText).join('\n')
+}
+
+/**
+ * The apps' context a request asks for with includeContext: none, that of the
+ * requesting server's apps, or that of all apps
+ */
+export function selectModelContexts(params: CreateMessageParams, serverId: string, contexts: ModelContext[]): ModelContext[] {
+  switch (params.includeContext) {
+    case 'thisServer':
+      return contexts.filter(context => context.serverId === serverId)
+    case 'allServers':
+      return contexts
+    default:
+      return []
+  }
+}
+
+/**
+ * The request with the apps' context appended to its system prompt, so the
+ * provider answers knowing the apps' current state
+ */
+export function withModelContext(params: CreateMessageParams, contexts: ModelContext[]): CreateMessageParams {
+  if (contexts.length === 0) return params
+
+  const sections = contexts.map(context => {
+    const lines = (context.content ?? []).map(getBlockText)
+    if (context.structuredContent) {
+      lines.push(JSON.stringify(context.structuredContent))
+    }
+    return `Current state of the ${context.toolName} app:\n${lines.join('\n')}`
+  })
+  return { ...params, systemPrompt: [params.systemPrompt, ...sections].filter(Boolean).join('\n\n') }
+}
+
+/**
+ * Answers with the last user message, cut to maxTokens words, so servers
+ * using sampling can be tried out without a model
+ */
+export const stubModelProvider: ModelProvider = {
+  id: 'stub',
+  name: 'Local stub (deterministic)',
+  createMessage: async (params) => {
+    const lastUserMessage = [...params.messages].reverse().find(message => message.role === 'user')
+    const words = `Stub reply to: ${lastUserMessage ? getMessageText(lastUserMessage) : ''}`.split(/\s+/)
+    const truncated = words.length > params.maxTokens
+
+    return {
+      role: 'assistant',
+      content: { type: 'text', text: words.slice(0, params.maxTokens).join(' ') },
+      model: 'mcpos-stub',
+      stopReason: truncated ? 'maxTokens' : 'endTurn'
+    }
+  }
+}
+
+registerModelProvider(stubModelProvider)
@@ -0,0 +1,162 @@
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js'
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens
+} from '@modelcontextprotocol/sdk/shared/auth.js'
+
+// Path of the dashboard page the authorization server redirects back to
+export const OAUTH_CALLBACK_PATH = '/oauth/callback'
+
+// postMessage type sent by the callback page to the window that started the flow
+export const OAUTH_CALLBACK_MESSAGE = 'mcpos-oauth-callback'
+
+export interface OAuthCallbackMessage {
+  type: typeof OAUTH_CALLBACK_MESSAGE
+  code?: string
+  state?: string
+  error?: string
+}
+
+type CredentialKind = 'client' | 'tokens' | 'verifier' | 'state'
+
+/**
+ * OAuth client for the MCP authorization flow, keeping dynamically registered
+ * client credentials and tokens per server in localStorage. The authorization
+ * page is opened in a popup that reports the code back via postMessage.
+ */
+export class BrowserOAuthClientProvider implements OAuthClientProvider {
+  private serverId: string
+  // Pending result of the popup opened by the last redirectToAuthorization()
+  private authorizationCode?: Promise<string>
+
+  constructor(serverId: string) {
+    this.serverId = serverId
+  }
+
+  get redirectUrl(): string {
+    return `${window.location.origin}${OAUTH_CALLBACK_PATH}`
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'MCPOS Dashboard',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    }
+  }
+
+  state(): string {
+    const state = crypto.randomUUID()
+    this.write('state', state)
+    return state
+  }
+
+  clientInformation(): OAuthClientInformationMixed | undefined {
+    return this.readJson<OAuthClientInformationMixed>('client')
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationMixed): void {
+    this.write('client', JSON.stringify(clientInformation))
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return this.readJson<OAuthTokens>('tokens')
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this.write('tokens', JSON.stringify(tokens))
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    // Listen before opening, the server may redirect back immediately
+    const authorizationCode = this.listenForAuthorizationCode()
+    const popup = window.open(authorizationUrl, `mcpos-oauth-${this.serverId}`, 'width=500,height=700')
+    if (!popup) {
+      throw new Error('Authorization popup was blocked, allow popups for this page and retry')
+    }
+    this.authorizationCode = authorizationCode
+    // Avoid unhandled rejections when nobody waits for the result
+    authorizationCode.catch(() => {})
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.write('verifier', codeVerifier)
+  }
+
+  codeVerifier(): string {
+    const verifier = this.read('verifier')
+    if (!verifier) {
+      throw new Error('No PKCE code verifier saved')
+    }
+    return verifier
+  }
+
+  invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): void {
+    const kinds: CredentialKind[] = scope === 'all' ? ['client', 'tokens', 'verifier', 'state'] : [scope]
+    kinds.forEach(kind => localStorage.removeItem(this.key(kind)))
+  }
+
+  hasTokens(): boolean {
+    return this.tokens() !== undefined
+  }
+
+  /**
+   * Wait for the user to complete the authorization popup
+   */
+  async waitForAuthorizationCode(): Promise<string> {
+    if (!this.authorizationCode) {
+      throw new Error('No authorization in progress')
+    }
+    try {
+      return await this.authorizationCode
+    } finally {
+      this.authorizationCode = undefined
+    }
+  }
+
+  private listenForAuthorizationCode(timeout = 5 * 60 * 1000): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        window.removeEventListener('message', listener)
+        reject(new Error('Timed out waiting for authorization'))
+      }, timeout)
+
+      const listener = ({ origin, data }: MessageEvent<OAuthCallbackMessage>) => {
+        if (origin !== window.location.origin || data?.type !== OAUTH_CALLBACK_MESSAGE) return
+        // Ignore callbacks of flows started for other servers
+        if (data.state !== this.read('state')) return
+
+        clearTimeout(timer)
+        window.removeEventListener('message', listener)
+        localStorage.removeItem(this.key('state'))
+
+        if (data.error || !data.code) {
+          reject(new Error(`Authorization failed: ${data.error ?? 'no code returned'}`))
+        } else {
+          resolve(data.code)
+        }
+      }
+      window.addEventListener('message', listener)
+    })
+  }
+
+  private key(kind: CredentialKind): string {
+    return `mcpos.oauth.${this.serverId}.${kind}`
+  }
+
+  private read(kind: CredentialKind): string | undefined {
+    return localStorage.getItem(this.key(kind)) ?? undefined
+  }
+
+  private readJson<T>(kind: CredentialKind): T | undefined {
+    const raw = this.read(kind)
+    return raw ? JSON.parse(raw) as T : undefined
+  }
+
+  private write(kind: CredentialKind, value: string): void {
+    localStorage.setItem(this.key(kind), value)
+  }
+}
@@ -0,0 +1,121 @@
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type { MCPServer, TrafficEntry } from '../types/mcp'
+import { getServerUrl } from './serverRegistry'
+
+/**
+ * A request and its response, or a message that stands on its own: a
+ * notification, or a response whose request is no longer recorded
+ */
+export interface TrafficExchange {
+  id: string
+  kind: 'request' | 'notification' | 'response'
+  method: string
+  start: TrafficEntry
+  response?: TrafficEntry
+}
+
+const opposite = (direction: TrafficEntry['direction']) => (direction === 'outgoing' ? 'incoming' : 'outgoing')
+
+// Both ends number their requests independently, so ids are only unique per
+// channel and sender
+const requestKey = (channel: TrafficEntry['channel'], direction: TrafficEntry['direction'], id: string | number) =>
+  `${channel}:${direction}:${id}`
+
+const describe = (message: JSONRPCMessage) => ({
+  method: 'method' in message ? message.method : undefined,
+  id: 'id' in message ? message.id : undefined
+})
+
+/**
+ * Group recorded messages into exchanges, in the order they started
+ */
+export function pairTraffic(entries: TrafficEntry[]): TrafficExchange[] {
+  const exchanges: TrafficExchange[] = []
+  const pending = new Map<string, TrafficExchange>()
+
+  for (const entry of entries) {
+    const { method, id } = describe(entry.message)
+
+    if (method !== undefined) {
+      const exchange: TrafficExchange = { id: entry.id, kind: id === undefined ? 'notification' : 'request', method, start: entry }
+      exchanges.push(exchange)
+      if (id !== undefined) {
+        pending.set(requestKey(entry.channel, entry.direction, id), exchange)
+      }
+      continue
+    }
+
+    // Responses travel the other way than their request
+    const key = id === undefined ? undefined : requestKey(entry.channel, opposite(entry.direction), id)
+    const request = key === undefined ? undefined : pending.get(key)
+    if (request && key) {
+      request.response = entry
+      pending.delete(key)
+    } else {
+      exchanges.push({ id: entry.id, kind: 'response', method: '(response)', start: entry })
+    }
+  }
+
+  return exchanges
+}
+
+export function getDuration(exchange: TrafficExchange): number | undefined {
+  return exchange.response ? exchange.response.timestamp - exchange.start.timestamp : undefined
+}
+
+/**
+ * Exchanges as a HAR 1.2 log, one entry per exchange. The JSON-RPC method
+ * stands in for the HTTP method, and the _channel and _direction fields tell
+ * where the message went. JSON-RPC errors come in a 200 response, as they do
+ * over HTTP, with the error in the content and the comment.
+ */
+export function toHarTrace(server: MCPServer, exchanges: TrafficExchange[]) {
+  const serverUrl = server.transport === 'stdio' ? `stdio:${server.command ?? ''}` : getServerUrl(server)
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'MCPOS', version: '1.0.0' },
+      comment: `JSON-RPC traffic of ${server.name}`,
+      entries: exchanges.map((exchange) => {
+        const { start, response } = exchange
+        const time = getDuration(exchange) ?? 0
+        const error = response && 'error' in response.message ? response.message.error : undefined
+        const responseText = response ? JSON.stringify(response.message) : ''
+
+        return {
+          startedDateTime: new Date(start.timestamp).toISOString(),
+          time,
+          _channel: start.channel,
+          _direction: start.direction,
+          request: {
+            method: exchange.method,
+            url: start.channel === 'app' ? `${serverUrl}#app` : serverUrl,
+            httpVersion: 'JSON-RPC/2.0',
+            cookies: [],
+            headers: [],
+            queryString: [],
+            postData: { mimeType: 'application/json', text: JSON.stringify(start.message) },
+            headersSize: -1,
+            bodySize: -1
+          },
+          response: {
+            // 0 when no response is expected or none came
+            status: response ? 200 : 0,
+            statusText: response ? 'OK' : '',
+            httpVersion: 'JSON-RPC/2.0',
+            cookies: [],
+            headers: [],
+            content: { size: responseText.length, mimeType: 'application/json', text: responseText },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1,
+            ...(error && { comment: `JSON-RPC error ${error.code}: ${error.message}` })
+          },
+          cache: {},
+          timings: { send: 0, wait: time, receive: 0 }
+        }
+      })
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js'
+import type { TrafficDirection } from '../types/mcp'
+
+export type TrafficRecorder = (direction: TrafficDirection, message: JSONRPCMessage) => void
+
+/**
+ * Transport wrapper reporting every JSON-RPC message that goes through the
+ * wrapped transport. Handlers already set on the wrapped transport keep
+ * being called, so it can still be watched and reused directly.
+ */
+export class RecordingTransport implements Transport {
+  onclose?: () => void
+  onerror?: (error: Error) => void
+  onmessage?: <T extends JSONRPCMessage>(message: T, extra?: MessageExtraInfo) => void
+  // Negotiated at initialization, not every transport exposes it
+  protocolVersion?: string
+
+  private inner: Transport
+  private record: TrafficRecorder
+
+  constructor(inner: Transport, record: TrafficRecorder) {
+    this.inner = inner
+    this.record = record
+
+    const { onclose, onerror, onmessage } = inner
+    inner.onclose = () => {
+      onclose?.()
+      this.onclose?.()
+    }
+    inner.onerror = (error) => {
+      onerror?.(error)
+      this.onerror?.(error)
+    }
+    inner.onmessage = (message, extra) => {
+      this.record('incoming', message)
+      onmessage?.(message, extra)
+      this.onmessage?.(message, extra)
+    }
+  }
+
+  // Read by Client.connect to tell a resumed session from a new one
+  get sessionId() {
+    return this.inner.sessionId
+  }
+
+  setProtocolVersion(version: string) {
+    this.protocolVersion = version
+    this.inner.setProtocolVersion?.(version)
+  }
+
+  start() {
+    return this.inner.start()
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions) {
+    this.record('outgoing', message)
+    await this.inner.send(message, options)
+  }
+
+  close() {
+    return this.inner.close()
+  }
+}
@@ -0,0 +1,183 @@
+import type { MCPServer } from '../types/mcp'
+
+// localStorage key holding the persisted server registry
+const STORAGE_KEY = 'mcpos.servers'
+
+/**
+ * Server fields that only exist while the dashboard is running and must not
+ * be persisted or exported
+ */
+type RuntimeServerFields = 'status' | 'tools' | 'toolChanges'
+
+export type StoredServer = Omit<MCPServer, RuntimeServerFields>
+
+/**
+ * A single entry of the Claude Desktop `mcpServers` config
+ */
+export interface MCPServerConfigEntry {
+  url?: string
+  type?: string
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  [key: string]: unknown
+}
+
+/**
+ * Claude Desktop compatible config file shape: `{ "mcpServers": { "<name>": {...} } }`
+ */
+export interface MCPServersConfig {
+  mcpServers: Record<string, MCPServerConfigEntry>
+}
+
+export interface ImportResult {
+  servers: Omit<MCPServer, 'id' | 'status'>[]
+  skipped: string[]
+}
+
+export const TRANSPORT_OPTIONS = [
+  { value: 'streamable-http', label: 'Streamable HTTP' },
+  { value: 'sse', label: 'SSE (legacy)' },
+  { value: 'stdio', label: 'stdio (via local bridge)' }
+]
+
+/**
+ * Whether the server has a session that takes requests, including one that
+ * misses health checks
+ */
+export function isServerConnected(server: Pick<MCPServer, 'status'>): boolean {
+  return server.status === 'connected' || server.status === 'unhealthy'
+}
+
+/**
+ * Endpoint of an HTTP based server, derived from its domain unless a full URL is set
+ */
+export function getServerUrl(server: Pick<MCPServer, 'domain' | 'url' | 'transport'>): string {
+  if (server.url) return server.url
+  return `http://${server.domain}/${server.transport === 'sse' ? 'sse' : 'mcp'}`
+}
+
+function toStoredServer(server: MCPServer): StoredServer {
+  const stored: Partial<MCPServer> = { ...server }
+  delete stored.status
+  delete stored.tools
+  delete stored.toolChanges
+  return stored as StoredServer
+}
+
+/**
+ * Load the persisted servers, or null when nothing has been saved yet
+ */
+export function loadServers(): MCPServer[] | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+
+    const stored = JSON.parse(raw) as StoredServer[]
+    if (!Array.isArray(stored)) return null
+
+    return stored.map(server => ({ ...server, status: 'disconnected' as const }))
+  } catch (error) {
+    console.error('Failed to load servers from storage:', error)
+    return null
+  }
+}
+
+export function saveServers(servers: MCPServer[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(servers.map(toStoredServer)))
+  } catch (error) {
+    console.error('Failed to save servers to storage:', error)
+  }
+}
+
+/**
+ * Whether a server carries settings that may hold secrets: request headers
+ * (Authorization, API keys) and the environment of stdio servers
+ */
+export function hasSecrets(server: MCPServer): boolean {
+  return Object.keys(server.headers ?? {}).length > 0 || Object.keys(server.env ?? {}).length > 0
+}
+
+/**
+ * Convert the registry into the Claude Desktop `mcpServers` config shape.
+ * Headers and env are left out unless `includeSecrets` is set, as exported
+ * files get shared.
+ */
+export function exportServersConfig(servers: MCPServer[], includeSecrets = false): MCPServersConfig {
+  const mcpServers: Record<string, MCPServerConfigEntry> = {}
+
+  servers.forEach(server => {
+    const { name, transport, command, args, env, ...settings } = toStoredServer(server)
+    delete (settings as Partial<StoredServer>).id
+    delete (settings as Partial<StoredServer>).domain
+    delete (settings as Partial<StoredServer>).url
+    if (!includeSecrets) {
+      delete (settings as Partial<StoredServer>).headers
+    }
+
+    switch (transport) {
+      case 'stdio':
+        mcpServers[name] = { command, args, env: includeSecrets ? env : undefined, ...settings }
+        break
+      case 'sse':
+        mcpServers[name] = { type: 'sse', url: getServerUrl(server), ...settings }
+        break
+      default:
+        mcpServers[name] = { url: getServerUrl(server), ...settings }
+    }
+  })
+
+  return { mcpServers }
+}
+
+/**
+ * Parse a Claude Desktop `mcpServers` config. Entries the dashboard cannot
+ * connect to are reported in `skipped` instead of failing the whole import.
+ */
+export function importServersConfig(json: string): ImportResult {
+  const config = JSON.parse(json) as Partial<MCPServersConfig>
+  if (!config || typeof config.mcpServers !== 'object' || config.mcpServers === null) {
+    throw new Error('Invalid config: missing "mcpServers" object')
+  }
+
+  const result: ImportResult = { servers: [], skipped: [] }
+
+  Object.entries(config.mcpServers).forEach(([name, entry]) => {
+    const { url, type, command, args, env, ...settings } = entry ?? {}
+
+    if (typeof command === 'string') {
+      result.servers.push({
+        ...settings,
+        name,
+        domain: '',
+        transport: 'stdio',
+        command,
+        args: Array.isArray(args) ? args.map(String) : [],
+        env
+      })
+      return
+    }
+
+    if (typeof url !== 'string') {
+      result.skipped.push(name)
+      return
+    }
+
+    try {
+      const parsed = new URL(url)
+      const isSse = type === 'sse' || parsed.pathname.endsWith('/sse')
+      result.servers.push({
+        ...settings,
+        name,
+        domain: parsed.host,
+        url,
+        transport: isSse ? 'sse' : 'streamable-http'
+      })
+    } catch {
+      result.skipped.push(name)
+    }
+  })
+
+  return result
+}
@@ -1,11 +1,106 @@
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { Tool, Progress, CallToolResult, LoggingLevel, JSONRPCMessage, Root, ContentBlock } from "@modelcontextprotocol/sdk/types.js";
+
+export type MCPTransportType = 'streamable-http' | 'sse' | 'stdio'
+
+/**
+ * Tools added or removed by list_changed refreshes the user hasn't seen yet
+ */
+export interface ToolChanges {
+  added: string[]
+  removed: Tool[]
+}
 
 export interface MCPServer {
   id: string
   name: string
   domain: string
-  status: 'connected' | 'disconnected' | 'connecting'
+  // Full endpoint URL, overrides the http://<domain>/mcp default
+  url?: string
+  // Extra request headers, e.g. Authorization
+  headers?: Record<string, string>
+  // Defaults to 'streamable-http'; stdio servers are reached through the local bridge
+  transport?: MCPTransportType
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  // HTTP endpoint probed along with the MCP ping, e.g. http://localhost:8081/health
+  healthUrl?: string
+  // file:// directories the server may work in, answered to roots/list
+  roots?: Root[]
+  // 'unhealthy' servers are still connected but stopped answering pings
+  status: 'connected' | 'disconnected' | 'connecting' | 'reconnecting' | 'unhealthy'
   tools?: Tool[]
+  toolChanges?: ToolChanges
+}
+
+/**
+ * A notifications/message from a server, or a log an MCP App sent through
+ * its bridge
+ */
+export interface LogEntry {
+  id: string
+  serverId: string
+  level: LoggingLevel
+  logger?: string
+  data: unknown
+  timestamp: number
+  source: 'server' | 'app'
+}
+
+/**
+ * Outcome of one health check of a connected server
+ */
+export interface HealthSample {
+  timestamp: number
+  // Round trip of the MCP ping in ms, missing when it went unanswered
+  latency?: number
+  // Whether the health endpoint answered with a 2xx, when the server has one
+  probe?: boolean
+}
+
+export type TrafficDirection = 'outgoing' | 'incoming'
+
+/**
+ * A JSON-RPC message exchanged with a server, or with one of its MCP Apps
+ * through the app bridge
+ */
+export interface TrafficEntry {
+  id: string
+  serverId: string
+  channel: 'server' | 'app'
+  // Seen from the host: outgoing messages are sent by MCPOS
+  direction: TrafficDirection
+  message: JSONRPCMessage
+  timestamp: number
+}
+
+/**
+ * A ui/message an MCP App sent into the conversation as a user turn
+ */
+export interface ConversationTurn {
+  id: string
+  serverId: string
+  // Tool call whose app sent the message
+  toolName: string
+  executionId?: string
+  content: ContentBlock[]
+  receivedAt: number
+  // Pending until the user accepts it into the conversation or rejects it
+  status: 'pending' | 'accepted' | 'rejected'
+}
+
+/**
+ * What an MCP App last pushed with ui/update-model-context, each update
+ * replaces the previous one
+ */
+export interface ModelContext {
+  // The execution id of the app's tool call
+  id: string
+  serverId: string
+  toolName: string
+  content?: ContentBlock[]
+  structuredContent?: Record<string, unknown>
+  updatedAt: number
 }
 
 export interface ToolParameter {
@@ -18,11 +113,29 @@ export interface ToolParameter {
   maximum?: number
 }
 
+/**
+ * notifications/message received from a server while a tool call ran
+ */
+export interface ExecutionNotification {
+  level: string
+  data: unknown
+  timestamp: number
+}
+
 export interface ToolExecution {
+  id: string
   toolName: string
   serverId: string
   parameters: Record<string, any>
   output?: string
   isStreaming?: boolean
-  status: 'running' | 'completed' | 'error'
-}
\ No newline at end of file
+  // Latest notifications/progress for the call
+  progress?: Progress
+  status: 'running' | 'completed' | 'cancelled' | 'error'
+  startedAt: number
+  finishedAt?: number
+  result?: CallToolResult
+  // Why the call failed, when it didn't produce a result
+  error?: string
+  notifications?: ExecutionNotification[]
+}
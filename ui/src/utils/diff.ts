@@ -0,0 +1,55 @@
+/**
+ * Line diff for comparing tool results
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Beyond this many line pairs the LCS table gets too big to build
+const MAX_CELLS = 1_000_000
+
+/**
+ * Diff two texts line by line using the longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ]
+  }
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] })
+    } else {
+      lines.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] })
+
+  return lines
+}
@@ -0,0 +1,27 @@
+/**
+ * Browser file helpers for exporting and importing dashboard data
+ */
+
+/**
+ * Trigger a download of the given content as a file
+ */
+export function downloadFile(fileName: string, content: BlobPart, mimeType = 'application/json'): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.click()
+  URL.revokeObjectURL(url)
+}
+
+export function downloadJson(fileName: string, data: unknown): void {
+  downloadFile(fileName, JSON.stringify(data, null, 2))
+}
+
+/**
+ * Download base64 encoded binary data, e.g. an MCP blob resource
+ */
+export function downloadBase64(fileName: string, base64: string, mimeType = 'application/octet-stream'): void {
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+  downloadFile(fileName, bytes, mimeType)
+}
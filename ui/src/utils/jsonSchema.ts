@@ -0,0 +1,238 @@
+/**
+ * JSON Schema helpers for building forms from tool input schemas
+ */
+
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv'
+import type { JsonSchemaType } from '@modelcontextprotocol/sdk/validation/types.js'
+
+/**
+ * The subset of JSON Schema the form renderer understands
+ */
+export interface JsonSchema {
+  type?: string | string[]
+  title?: string
+  description?: string
+  default?: unknown
+  enum?: unknown[]
+  const?: unknown
+  format?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  minimum?: number
+  maximum?: number
+  multipleOf?: number
+  oneOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  definitions?: Record<string, JsonSchema>
+  [key: string]: unknown
+}
+
+/**
+ * Validation errors keyed by JSON pointer of the offending value ('' is the root)
+ */
+export type SchemaErrors = Record<string, string>
+
+const validator = new AjvJsonSchemaValidator()
+// Compiled validators by schema object, Ajv compiles every object it is given anew
+const validators = new WeakMap<JsonSchema, ReturnType<typeof validator.getValidator>>()
+
+/**
+ * Follow `$ref` pointers into the root schema and merge `allOf` branches
+ */
+export function resolveSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let resolved = schema
+  // Bounded, so that self-referencing schemas can't loop forever
+  for (let depth = 0; resolved.$ref && depth < 32; depth++) {
+    const rest: JsonSchema = { ...resolved }
+    delete rest.$ref
+    resolved = { ...resolvePointer(root, resolved.$ref), ...rest }
+  }
+
+  if (resolved.allOf) {
+    const rest: JsonSchema = { ...resolved }
+    delete rest.allOf
+    return resolved.allOf.reduce<JsonSchema>((merged, branch) => {
+      const part = resolveSchema(branch, root)
+      return {
+        ...merged,
+        ...part,
+        properties: { ...merged.properties, ...part.properties },
+        required: [...(merged.required ?? []), ...(part.required ?? [])]
+      }
+    }, rest)
+  }
+
+  return resolved
+}
+
+function resolvePointer(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref: ${ref}`)
+  }
+
+  let target: unknown = root
+  ref.slice(1).split('/').filter(Boolean).forEach(segment => {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    target = (target as Record<string, unknown> | undefined)?.[key]
+  })
+
+  if (!target || typeof target !== 'object') {
+    throw new Error(`Unresolvable $ref: ${ref}`)
+  }
+  return target as JsonSchema
+}
+
+/**
+ * Primary type of a schema, inferred from its keywords when `type` is missing
+ */
+export function getSchemaType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find(type => type !== 'null') ?? schema.type[0]
+  }
+  if (schema.type) return schema.type
+  if (schema.properties) return 'object'
+  if (schema.items) return 'array'
+  if (schema.const !== undefined) return typeof schema.const
+  if (schema.enum?.length) return typeof schema.enum[0]
+  return undefined
+}
+
+/**
+ * The `$ref`s followed on the way to a schema, with the schema's own added,
+ * or null when its `$ref` was already followed: self-referencing schemas
+ * (e.g. from zod's z.lazy) would otherwise expand forever
+ */
+export function followRef(schema: JsonSchema, refs: ReadonlySet<string>): ReadonlySet<string> | null {
+  if (!schema.$ref) return refs
+  if (refs.has(schema.$ref)) return null
+  return new Set([...refs, schema.$ref])
+}
+
+/**
+ * Whether a number is edited with a slider: it needs both bounds, and a step
+ * (integers step by 1, other numbers need multipleOf)
+ */
+export function isSliderNumber(schema: JsonSchema): boolean {
+  return schema.minimum !== undefined && schema.maximum !== undefined &&
+    (getSchemaType(schema) === 'integer' || schema.multipleOf !== undefined)
+}
+
+/**
+ * Initial form value for a schema: its default, or an object holding the
+ * defaults of its properties. Values the form shows without the user touching
+ * them (a slider's position, a required switch that is off) are seeded too, so
+ * that what is submitted matches what is shown. Recursive parts of a schema
+ * get no default.
+ */
+export function getDefaultValue(schema: JsonSchema, root: JsonSchema = schema, refs: ReadonlySet<string> = new Set()): unknown {
+  const followed = followRef(schema, refs)
+  if (!followed) return undefined
+
+  const resolved = resolveSchema(schema, root)
+  if (resolved.default !== undefined) return structuredClone(resolved.default)
+  if (resolved.const !== undefined) return resolved.const
+
+  switch (getSchemaType(resolved)) {
+    case 'object': {
+      const value: Record<string, unknown> = {}
+      Object.entries(resolved.properties ?? {}).forEach(([name, property]) => {
+        const propertyValue = getDefaultValue(property, root, followed)
+        if (propertyValue !== undefined) {
+          value[name] = propertyValue
+        } else if (resolved.required?.includes(name) && getSchemaType(resolveSchema(property, root)) === 'boolean') {
+          value[name] = false
+        }
+      })
+      return value
+    }
+    case 'array':
+      return []
+    case 'number':
+    case 'integer':
+      return isSliderNumber(resolved) ? resolved.minimum : undefined
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Validate a value against a schema, returning the errors by location
+ */
+export function validateSchema(schema: JsonSchema, value: unknown): SchemaErrors {
+  let validate = validators.get(schema)
+  if (!validate) {
+    try {
+      validate = validator.getValidator(schema as JsonSchemaType)
+    } catch (error) {
+      // A schema Ajv can't compile (e.g. a misspelled type) fails every value
+      const errorMessage = `has an invalid schema: ${(error as Error).message}`
+      validate = () => ({ valid: false, data: undefined, errorMessage })
+    }
+    validators.set(schema, validate)
+  }
+
+  const result = validate(value)
+  return result.valid ? {} : parseErrorMessage(result.errorMessage)
+}
+
+/**
+ * Split Ajv's combined error text ("data/a must be string, data must have
+ * required property 'b'") into messages keyed by JSON pointer
+ */
+function parseErrorMessage(errorMessage: string): SchemaErrors {
+  const errors: SchemaErrors = {}
+
+  errorMessage.split(/, (?=data)/).forEach(part => {
+    const match = part.match(/^data(\S*) (.*)$/)
+    if (!match) {
+      errors[''] = errors[''] ? `${errors['']}, ${part}` : part
+      return
+    }
+
+    let [, pointer, message] = match
+    const required = message.match(/^must have required property '(.+)'$/)
+    if (required) {
+      pointer = `${pointer}/${required[1]}`
+      message = 'is required'
+    }
+    errors[pointer] ??= message
+  })
+
+  return errors
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+export function getValueType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+/**
+ * Index of the oneOf/anyOf branch a value most likely belongs to, judged by
+ * const and type, defaulting to the first branch
+ */
+export function matchVariant(variants: JsonSchema[], root: JsonSchema, value: unknown): number {
+  if (value === undefined) return 0
+
+  const valueType = getValueType(value)
+  const index = variants.findIndex(variant => {
+    const resolved = resolveSchema(variant, root)
+    if (resolved.const !== undefined) return resolved.const === value
+
+    const type = getSchemaType(resolved)
+    return type === valueType || (type === 'number' && valueType === 'integer')
+  })
+  return Math.max(index, 0)
+}
@@ -8,11 +8,17 @@
 import {
   AppBridge,
   PostMessageTransport,
-  type McpUiSandboxProxyReadyNotification
+  type McpUiSandboxProxyReadyNotification,
+  type McpUiHostContext,
+  type McpUiStyles,
+  type McpUiStyleVariableKey,
+  type McpUiTheme
 } from "@modelcontextprotocol/ext-apps/app-bridge";
 import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import type { UiResourceData } from "../services/mcpClient";
+import { type CallToolResult, ContentBlockSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { mcpClient, type UiResourceData } from "../services/mcpClient";
+import { RecordingTransport } from "../services/recordingTransport";
 
 // URL to the MCPOS sandbox proxy server
 const SANDBOX_PROXY_URL = new URL("http://localhost:8081/sandbox.html");
@@ -20,6 +26,49 @@ const SANDBOX_PROXY_URL = new URL("http://localhost:8081/sandbox.html");
 // Implementation info for AppBridge
 const IMPLEMENTATION = { name: "MCPOS UI Host", version: "1.0.0" };
 
+// ui/update-model-context is newer than the ext-apps version in use, so its
+// request and capability are declared here
+const UpdateModelContextRequestSchema = z.object({
+  method: z.literal("ui/update-model-context"),
+  params: z.object({
+    content: z.array(ContentBlockSchema).optional(),
+    structuredContent: z.record(z.string(), z.unknown()).optional(),
+  }),
+});
+const UPDATE_MODEL_CONTEXT_CAPABILITY = { updateModelContext: {} };
+
+// Mantine variables behind the style variables apps theme themselves with
+const STYLE_VARIABLES: Partial<Record<McpUiStyleVariableKey, string>> = {
+  "--color-background-primary": "--mantine-color-body",
+  "--color-background-secondary": "--mantine-color-default-hover",
+  "--color-background-info": "--mantine-color-blue-light",
+  "--color-background-danger": "--mantine-color-red-light",
+  "--color-background-success": "--mantine-color-green-light",
+  "--color-background-warning": "--mantine-color-yellow-light",
+  "--color-text-primary": "--mantine-color-text",
+  "--color-text-secondary": "--mantine-color-dimmed",
+  "--color-text-info": "--mantine-color-blue-text",
+  "--color-text-danger": "--mantine-color-red-text",
+  "--color-text-success": "--mantine-color-green-text",
+  "--color-text-warning": "--mantine-color-yellow-text",
+  "--color-border-primary": "--mantine-color-default-border",
+  "--color-ring-primary": "--mantine-primary-color-filled",
+  "--font-sans": "--mantine-font-family",
+  "--font-mono": "--mantine-font-family-monospace",
+  "--font-text-xs-size": "--mantine-font-size-xs",
+  "--font-text-sm-size": "--mantine-font-size-sm",
+  "--font-text-md-size": "--mantine-font-size-md",
+  "--font-text-lg-size": "--mantine-font-size-lg",
+  "--border-radius-xs": "--mantine-radius-xs",
+  "--border-radius-sm": "--mantine-radius-sm",
+  "--border-radius-md": "--mantine-radius-md",
+  "--border-radius-lg": "--mantine-radius-lg",
+  "--border-radius-xl": "--mantine-radius-xl",
+  "--shadow-sm": "--mantine-shadow-sm",
+  "--shadow-md": "--mantine-shadow-md",
+  "--shadow-lg": "--mantine-shadow-lg",
+};
+
 export const log = {
   info: console.log.bind(console, "[MCPOS Host]"),
   warn: console.warn.bind(console, "[MCPOS Host]"),
@@ -32,6 +81,8 @@ export const log = {
 export interface ToolCallInfo {
   serverId: string;
   toolName: string;
+  // Execution the app belongs to, ties its messages to the tool call
+  executionId?: string;
   client: Client;
   input: Record<string, unknown>;
   resultPromise: Promise<CallToolResult>;
@@ -74,14 +125,18 @@ export function loadSandboxProxy(iframe: HTMLIFrameElement): Promise<boolean> {
 export async function initializeApp(
   iframe: HTMLIFrameElement,
   appBridge: AppBridge,
-  { input, resultPromise, appResourcePromise }: Required<ToolCallInfo>,
+  { serverId, input, resultPromise, appResourcePromise }: Required<ToolCallInfo>,
 ): Promise<void> {
   const appInitializedPromise = hookInitializedCallback(appBridge);
 
   // Connect app bridge (triggers MCP initialization handshake)
   // Pass iframe.contentWindow as both target and source for security
+  // Bridge traffic shows in the protocol inspector of the tool's server
   await appBridge.connect(
-    new PostMessageTransport(iframe.contentWindow!, iframe.contentWindow!),
+    new RecordingTransport(
+      new PostMessageTransport(iframe.contentWindow!, iframe.contentWindow!),
+      (direction, message) => mcpClient.recordTraffic(serverId, "app", direction, message),
+    ),
   );
 
   // Load inner iframe HTML with CSP metadata
@@ -116,30 +171,62 @@ export async function initializeApp(
 /**
  * Create a new AppBridge for communication with the sandbox
  */
-export function newAppBridge(client: Client, iframe: HTMLIFrameElement): AppBridge {
+export function newAppBridge(
+  iframe: HTMLIFrameElement,
+  { client, serverId, toolName, executionId }: ToolCallInfo,
+  theme: McpUiTheme,
+): AppBridge {
   const serverCapabilities = client.getServerCapabilities();
-  const appBridge = new AppBridge(client, IMPLEMENTATION, {
-    openLinks: {},
-    serverTools: serverCapabilities?.tools,
-    serverResources: serverCapabilities?.resources,
-  });
+  const appBridge = new AppBridge(
+    client,
+    IMPLEMENTATION,
+    {
+      openLinks: {},
+      serverTools: serverCapabilities?.tools,
+      serverResources: serverCapabilities?.resources,
+      ...UPDATE_MODEL_CONTEXT_CAPABILITY,
+    },
+    // Returned to the app with its ui/initialize result
+    { hostContext: getHostContext(iframe, theme) },
+  );
 
   // Register all handlers before calling connect()
   // The Guest UI can start sending requests immediately after initialization
 
-  appBridge.onmessage = async (params, _extra) => {
+  // A user turn in the conversation, unless the user rejects it
+  appBridge.onmessage = async (params, extra) => {
     log.info("Message from MCP App:", params);
-    return {};
+    const accepted = await mcpClient.messageFromApp(
+      { serverId, toolName, executionId, content: params.content },
+      extra.signal,
+    );
+    return accepted ? {} : { isError: true };
   };
 
+  // Kept for the next model turn, each update replaces the app's previous one
+  appBridge.setRequestHandler(UpdateModelContextRequestSchema, async ({ params }) => {
+    log.info("Model context from MCP App:", params);
+    mcpClient.updateModelContextFromApp({
+      id: executionId ?? `${serverId}:${toolName}`,
+      serverId,
+      toolName,
+      content: params.content,
+      structuredContent: params.structuredContent,
+      updatedAt: Date.now(),
+    });
+    return {};
+  });
+
   appBridge.onopenlink = async (params, _extra) => {
     log.info("Open link request:", params);
     window.open(params.url, "_blank", "noopener,noreferrer");
     return {};
   };
 
+  // Shown in the server's log console next to the server's own logs
   appBridge.onloggingmessage = (params) => {
     log.info("Log message from MCP App:", params);
+    mcpClient.logFromApp(serverId, params);
   };
 
   // Handle dynamic iframe resizing
@@ -175,6 +262,41 @@ export function newAppBridge(client: Client, iframe: HTMLIFrameElement): AppBrid
   return appBridge;
 }
 
+/**
+ * What the app is told about MCPOS: theme and CSS variables of the current
+ * Mantine color scheme, locale, time zone and the size of its iframe
+ */
+export function getHostContext(iframe: HTMLIFrameElement, theme: McpUiTheme): McpUiHostContext {
+  // Read after Mantine switched the scheme, so the values match the theme
+  const rootStyle = getComputedStyle(document.documentElement);
+  const variables = Object.fromEntries(
+    Object.entries(STYLE_VARIABLES).map(([key, mantineVariable]) => [
+      key,
+      rootStyle.getPropertyValue(mantineVariable).trim() || undefined,
+    ]),
+  ) as McpUiStyles;
+
+  return {
+    theme,
+    styles: { variables },
+    displayMode: "inline",
+    availableDisplayModes: ["inline"],
+    viewport: {
+      width: iframe.clientWidth,
+      height: iframe.clientHeight,
+      maxWidth: iframe.parentElement?.clientWidth,
+    },
+    locale: navigator.language,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    userAgent: `${IMPLEMENTATION.name}/${IMPLEMENTATION.version}`,
+    platform: "web",
+    deviceCapabilities: {
+      touch: window.matchMedia("(pointer: coarse)").matches,
+      hover: window.matchMedia("(hover: hover)").matches,
+    },
+  };
+}
+
 /**
  * Hook into AppBridge.oninitialized and return a Promise that resolves when
  * the MCP App is initialized (i.e., when the inner iframe is ready)
@@ -0,0 +1,73 @@
+/**
+ * Command line arguments to and from the text typed in a form, quoted the way
+ * a POSIX shell would read them
+ */
+
+// Arguments made of these characters need no quotes
+const SAFE_WORD = /^[\w@%+=:,./-]+$/
+
+/**
+ * Split a command line into arguments, honouring single quotes, double quotes
+ * and backslash escapes, e.g. `--root "My Documents"` is two arguments
+ */
+export function splitShellWords(line: string): string[] {
+  const words: string[] = []
+  let word: string | null = null
+  let quote: '"' | "'" | null = null
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (quote === "'") {
+      if (char === "'") quote = null
+      else word += char
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null
+      } else if (char === '\\' && i + 1 < line.length && '"\\$`'.includes(line[i + 1])) {
+        word += line[++i]
+      } else {
+        word += char
+      }
+    } else if (/\s/.test(char)) {
+      if (word !== null) words.push(word)
+      word = null
+    } else {
+      word ??= ''
+      if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '\\' && i + 1 < line.length) {
+        word += line[++i]
+      } else {
+        word += char
+      }
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote`)
+  }
+  if (word !== null) words.push(word)
+  return words
+}
+
+/**
+ * Join arguments into a command line that splitShellWords reads back as is
+ */
+export function joinShellWords(words: string[]): string {
+  return words
+    .map(word => (SAFE_WORD.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`))
+    .join(' ')
+}
+
+/**
+ * Form validator for a command line, null when it splits
+ */
+export function validateShellWords(line: string): string | null {
+  try {
+    splitShellWords(line)
+    return null
+  } catch (error) {
+    return (error as Error).message
+  }
+}